@@ -0,0 +1,198 @@
+/**
+ * Build public/data/calendar-zones.geojson for the calendar-date layer.
+ *
+ * The time zone polygons in world-timezones.geojson are merged per standard
+ * UTC offset, carry no daylight-saving rules and predate some offset changes.
+ * This script cuts the land out of them along the IANA zones (boundaries from
+ * timezone-boundary-builder, as bundled by geo-tz) and tags each piece with
+ * its zone, so the browser takes the current offset from Intl. What is left
+ * of the source polygons is open sea, which stays on nominal standard time.
+ *
+ * Run with: npm run build-calendar-zones
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { decode } from 'geobuf';
+import Pbf from 'pbf';
+import polygonClipping, { type MultiPolygon, type Polygon, type Ring } from 'polygon-clipping';
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+const TIMEZONES_PATH = path.join(ROOT, 'public/data/world-timezones.geojson');
+const OUTPUT_PATH = path.join(ROOT, 'public/data/calendar-zones.geojson');
+const GEO_TZ_DATA = path.join(ROOT, 'node_modules/geo-tz/data/timezones-now.geojson');
+
+const SIMPLIFY_TOLERANCE = 0.02; // degrees, about 2 km
+const MIN_RING_AREA = 0.0005;    // square degrees; drops rocks and slivers
+const PRECISION = 1000;          // coordinates rounded to 0.001°
+
+type Bounds = { west: number; south: number; east: number; north: number };
+
+// ── Daylight-saving rules ─────────────────────────────────────────────
+
+function getUtcOffset(zone: string, date: Date): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: zone, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric',
+    }).formatToParts(date).map(part => [part.type, Number(part.value)])
+  );
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return Math.round((wallClock - date.getTime()) / (15 * 60 * 1000)) / 4;
+}
+
+/**
+ * Standard (lowest) offset of a zone over the year
+ */
+function getStandardOffset(zone: string, year: number): number {
+  const offsets: number[] = [];
+  for (let week = 0; week < 53; week++) {
+    offsets.push(getUtcOffset(zone, new Date(Date.UTC(year, 0, 1 + week * 7))));
+  }
+  return Math.min(...offsets);
+}
+
+// ── geo-tz quadtree ───────────────────────────────────────────────────
+
+/**
+ * Collect the land polygons of every zone from geo-tz's quadtree index.
+ * Leaves are either a list of zones covering the whole quad or a geobuf
+ * blob with the exact boundaries clipped to it.
+ */
+function loadZonePolygons(): Map<string, Polygon[]> {
+  const index = JSON.parse(fs.readFileSync(`${GEO_TZ_DATA}.index.json`, 'utf8'));
+  const features = fs.readFileSync(`${GEO_TZ_DATA}.geo.dat`);
+  const zones = new Map<string, Polygon[]>();
+  const add = (zone: string, polygon: Polygon) => {
+    if (!zones.has(zone)) zones.set(zone, []);
+    zones.get(zone)!.push(polygon);
+  };
+
+  const walk = (node: any, bounds: Bounds) => {
+    if (!node) return; // open sea
+    if (Array.isArray(node)) {
+      const { west, south, east, north } = bounds;
+      add(index.timezones[node[0]], [[[west, south], [east, south], [east, north], [west, north], [west, south]]]);
+      return;
+    }
+    if (node.pos >= 0 && node.len) {
+      const collection = decode(new Pbf(features.subarray(node.pos, node.pos + node.len)));
+      collection.features.forEach((feature: any) => {
+        const { type, coordinates } = feature.geometry;
+        const polygons: Polygon[] = type === 'Polygon' ? [coordinates] : type === 'MultiPolygon' ? coordinates : [];
+        polygons.forEach(polygon => add(feature.properties.tzid, polygon));
+      });
+      return;
+    }
+
+    const midLat = (bounds.south + bounds.north) / 2;
+    const midLon = (bounds.west + bounds.east) / 2;
+    walk(node.a, { west: midLon, south: midLat, east: bounds.east, north: bounds.north });
+    walk(node.b, { west: bounds.west, south: midLat, east: midLon, north: bounds.north });
+    walk(node.c, { west: bounds.west, south: bounds.south, east: midLon, north: midLat });
+    walk(node.d, { west: midLon, south: bounds.south, east: bounds.east, north: midLat });
+  };
+
+  walk(index.lookup, { west: -180, south: -90, east: 180, north: 90 });
+  return zones;
+}
+
+// ── Geometry helpers ──────────────────────────────────────────────────
+
+function simplifyRing(ring: Ring): Ring {
+  if (ring.length <= 4) return ring;
+
+  // Douglas–Peucker on the open ring, keeping the closing point
+  const keep = new Array(ring.length).fill(false);
+  keep[0] = keep[ring.length - 1] = true;
+  const stack: [number, number][] = [[0, ring.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    const [x1, y1] = ring[first];
+    const [x2, y2] = ring[last];
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const [x, y] = ring[i];
+      const distance = length === 0
+        ? Math.hypot(x - x1, y - y1)
+        : Math.abs((x2 - x1) * (y1 - y) - (x1 - x) * (y2 - y1)) / length;
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index >= 0 && maxDistance > SIMPLIFY_TOLERANCE) {
+      keep[index] = true;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return ring.filter((_, i) => keep[i]);
+}
+
+function ringArea(ring: Ring): number {
+  let area = 0;
+  for (let i = 1; i < ring.length; i++) {
+    area += ring[i - 1][0] * ring[i][1] - ring[i][0] * ring[i - 1][1];
+  }
+  return Math.abs(area) / 2;
+}
+
+function cleanMultiPolygon(multiPolygon: MultiPolygon): MultiPolygon {
+  return multiPolygon
+    .map(polygon => polygon
+      .map(ring => simplifyRing(ring).map(([x, y]) => [Math.round(x * PRECISION) / PRECISION, Math.round(y * PRECISION) / PRECISION] as [number, number]))
+      .filter(ring => ring.length >= 4 && ringArea(ring) >= MIN_RING_AREA))
+    .filter(polygon => polygon.length > 0 && ringArea(polygon[0]) >= MIN_RING_AREA);
+}
+
+// ── Build ─────────────────────────────────────────────────────────────
+
+function main() {
+  const year = new Date().getUTCFullYear();
+  const timezones = JSON.parse(fs.readFileSync(TIMEZONES_PATH, 'utf8'));
+  const zonePolygons = loadZonePolygons();
+
+  const landZones: { zone: string; standardOffset: number; geometry: MultiPolygon }[] = [];
+  zonePolygons.forEach((polygons, zone) => {
+    const standardOffset = getStandardOffset(zone, year);
+    const simplified = polygons.map(polygon => polygon.map(simplifyRing)) as Polygon[];
+    const merged = polygonClipping.union(simplified[0], ...simplified.slice(1));
+
+    // Disputed areas belong to several zones; the first one keeps them
+    const geometry = cleanMultiPolygon(polygonClipping.difference(merged, ...landZones.map(({ geometry }) => geometry)));
+    if (geometry.length === 0) return;
+
+    landZones.push({ zone, standardOffset, geometry });
+    console.log(`${zone}: UTC${standardOffset >= 0 ? '+' : ''}${standardOffset}, ${geometry.length} polygons`);
+  });
+
+  // The source polygons keep the sea around the land zones
+  const cutouts = landZones.map(({ geometry }) => geometry);
+  const seaFeatures = timezones.features.flatMap((feature: any) => {
+    const { type, coordinates } = feature.geometry;
+    const geometry: MultiPolygon = type === 'Polygon' ? [coordinates] : coordinates;
+    const remaining = cleanMultiPolygon(polygonClipping.difference(geometry, ...cutouts));
+    return remaining.length > 0
+      ? [{ type: 'Feature', properties: { ZONE: feature.properties.ZONE }, geometry: { type: 'MultiPolygon', coordinates: remaining } }]
+      : [];
+  });
+
+  const landFeatures = landZones.map(({ zone, standardOffset, geometry }) => ({
+    type: 'Feature',
+    properties: { ZONE: standardOffset, IANA_ZONE: zone },
+    geometry: { type: 'MultiPolygon', coordinates: geometry },
+  }));
+
+  const output = {
+    type: 'FeatureCollection',
+    generated: new Date().toISOString(),
+    features: [...seaFeatures, ...landFeatures],
+  };
+  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(output));
+  console.log(`Wrote ${output.features.length} features to ${path.relative(ROOT, OUTPUT_PATH)}`);
+}
+
+main();
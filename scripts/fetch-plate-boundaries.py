@@ -0,0 +1,61 @@
+#!/usr/bin/env python3
+"""
+Fetch Bird's PB2002 plate-boundary steps (GeoJSON conversion published at
+github.com/fraxen/tectonicplates) and write a compact copy to
+public/data/plate-boundaries.geojson. The dataset is static, so this only
+needs to run when the file is missing.
+"""
+
+import json
+import os
+import sys
+import urllib.request
+
+SOURCE_URL = "https://raw.githubusercontent.com/fraxen/tectonicplates/master/GeoJSON/PB2002_steps.json"
+
+OUTPUT_PATH = "public/data/plate-boundaries.geojson"
+
+# Decimal places kept in coordinates (~100 m)
+PRECISION = 3
+
+
+def round_coordinates(coordinates):
+    if isinstance(coordinates[0], (int, float)):
+        return [round(value, PRECISION) for value in coordinates]
+    return [round_coordinates(part) for part in coordinates]
+
+
+if __name__ == "__main__":
+    if os.path.exists(OUTPUT_PATH) and "--force" not in sys.argv:
+        print("Plate boundaries already bundled")
+        sys.exit(0)
+
+    try:
+        with urllib.request.urlopen(SOURCE_URL, timeout=60) as response:
+            data = json.load(response)
+    except Exception as error:
+        print(f"Warning: {error}", file=sys.stderr)
+        sys.exit(1)
+
+    features = [
+        {
+            "type": "Feature",
+            "properties": feature.get("properties", {}),
+            "geometry": {
+                "type": feature["geometry"]["type"],
+                "coordinates": round_coordinates(feature["geometry"]["coordinates"]),
+            },
+        }
+        for feature in data.get("features", [])
+        if feature.get("geometry")
+    ]
+
+    if not features:
+        print("No boundary features fetched, skipping", file=sys.stderr)
+        sys.exit(1)
+
+    with open(OUTPUT_PATH, "w") as f:
+        json.dump({"type": "FeatureCollection", "features": features}, f, separators=(",", ":"))
+        f.write("\n")
+
+    print(f"Wrote {len(features)} boundary steps to {OUTPUT_PATH}")
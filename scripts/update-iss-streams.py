@@ -1,22 +1,26 @@
 #!/usr/bin/env python3
 """
-Fetch current ISS livestream video IDs from NASA's YouTube channel using yt-dlp.
+Fetch current ISS livestream video IDs from NASA's YouTube channel using yt-dlp,
+and write them to public/data/iss-streams.json, which the site reads at runtime.
 No API key required.
 """
 
+import json
 import re
 import subprocess
 import sys
+from datetime import datetime, timezone
 
 CHANNEL_URL = "https://www.youtube.com/@NASA/streams"
 
-# Patterns to match stream titles — order matches config.ts streams array
+# Patterns to match stream titles — manifest order is the player's failover order
 STREAM_PATTERNS = [
     {"label": "HD Views", "pattern": r"High.Definition Views from the International Space Station"},
     {"label": "Live Video", "pattern": r"Live Video from the International Space Station"},
 ]
 
-CONFIG_PATH = "src/config.ts"
+MANIFEST_PATH = "public/data/iss-streams.json"
+VIDEO_ID_PATTERN = re.compile(r"^[A-Za-z0-9_-]{11}$")
 
 
 def get_live_streams():
@@ -63,37 +67,43 @@ def find_iss_streams(streams):
     return found
 
 
-def update_config(found_streams):
-    """Update the streams array in config.ts."""
-    with open(CONFIG_PATH, "r") as f:
-        content = f.read()
+def load_existing():
+    try:
+        with open(MANIFEST_PATH) as f:
+            return json.load(f).get("streams", [])
+    except (OSError, ValueError):
+        return []
 
-    entries = []
-    for s in found_streams:
-        entries.append(f"        {{ id: '{s['id']}', label: '{s['label']}' }}")
 
-    if not entries:
-        print("No ISS streams found, skipping update", file=sys.stderr)
-        sys.exit(1)
+def update_manifest(found_streams):
+    """Write the manifest, keeping previous IDs for streams not found this time."""
+    existing = {s["label"]: s for s in load_existing()}
+    found = {s["label"]: s for s in found_streams}
 
-    new_block = "streams: [\n" + ",\n".join(entries) + ",\n      ]"
+    streams = []
+    for pattern_info in STREAM_PATTERNS:
+        stream = found.get(pattern_info["label"]) or existing.get(pattern_info["label"])
+        if stream and VIDEO_ID_PATTERN.match(stream["id"]):
+            streams.append({"id": stream["id"], "label": pattern_info["label"]})
 
-    updated = re.sub(
-        r"streams: \[.*?\]",
-        new_block,
-        content,
-        flags=re.DOTALL,
-    )
+    if not streams:
+        print("No ISS streams found, skipping update", file=sys.stderr)
+        sys.exit(1)
 
-    if updated == content:
+    if streams == load_existing():
         print("No changes needed")
         return False
 
-    with open(CONFIG_PATH, "w") as f:
-        f.write(updated)
+    with open(MANIFEST_PATH, "w") as f:
+        json.dump(
+            {"updated": datetime.now(timezone.utc).isoformat(timespec="seconds"), "streams": streams},
+            f,
+            indent=2,
+        )
+        f.write("\n")
 
     print("Updated stream IDs:")
-    for s in found_streams:
+    for s in streams:
         print(f"  {s['label']}: {s['id']}")
     return True
 
@@ -106,4 +116,4 @@ if __name__ == "__main__":
     found = find_iss_streams(streams)
     print(f"Matched {len(found)}/{len(STREAM_PATTERNS)} ISS streams")
 
-    update_config(found)
+    update_manifest(found)
@@ -0,0 +1,82 @@
+#!/usr/bin/env python3
+"""
+Fetch the latest two-line element sets from CelesTrak for the satellites
+propagated in the browser, and write them to public/data/tle.json.
+No API key required.
+"""
+
+import json
+import sys
+import urllib.request
+from datetime import datetime, timezone
+
+GP_URL = "https://celestrak.org/NORAD/elements/gp.php?CATNR={norad_id}&FORMAT=TLE"
+
+# NORAD catalog numbers bundled with the site
+# Satellite catalog (CONFIG.satellites.catalog), the ISS first
+SATELLITES = [
+    25544,  # ISS (ZARYA)
+    20580,  # Hubble Space Telescope
+    48274,  # Tiangong (CSS Tianhe)
+    33591,  # NOAA 19
+    43013,  # NOAA 20
+    43873,  # GPS III SV01
+    44713,  # Starlink-1007
+]
+
+OUTPUT_PATH = "public/data/tle.json"
+
+
+def fetch_tle(norad_id):
+    """Return {noradId, name, line1, line2} for one satellite."""
+    with urllib.request.urlopen(GP_URL.format(norad_id=norad_id), timeout=30) as response:
+        lines = [line.strip() for line in response.read().decode().splitlines() if line.strip()]
+
+    line1 = next((line for line in lines if line.startswith("1 ")), None)
+    line2 = next((line for line in lines if line.startswith("2 ")), None)
+    if not line1 or not line2:
+        raise ValueError(f"no TLE in response for NORAD {norad_id}")
+
+    name = lines[0] if not lines[0].startswith("1 ") else f"NORAD {norad_id}"
+    return {"noradId": norad_id, "name": name, "line1": line1, "line2": line2}
+
+
+def load_existing():
+    try:
+        with open(OUTPUT_PATH) as f:
+            return {s["noradId"]: s for s in json.load(f).get("satellites", [])}
+    except (OSError, ValueError):
+        return {}
+
+
+if __name__ == "__main__":
+    existing = load_existing()
+    satellites = []
+
+    for norad_id in SATELLITES:
+        try:
+            satellites.append(fetch_tle(norad_id))
+            print(f"Fetched NORAD {norad_id}")
+        except Exception as error:
+            print(f"Warning: {error}", file=sys.stderr)
+            # Keep the previous elements rather than dropping the satellite
+            if norad_id in existing:
+                satellites.append(existing[norad_id])
+
+    if not satellites:
+        print("No TLEs fetched, skipping update", file=sys.stderr)
+        sys.exit(1)
+
+    if satellites == [existing.get(s["noradId"]) for s in satellites]:
+        print("No changes needed")
+        sys.exit(0)
+
+    with open(OUTPUT_PATH, "w") as f:
+        json.dump(
+            {"updated": datetime.now(timezone.utc).isoformat(timespec="seconds"), "satellites": satellites},
+            f,
+            indent=2,
+        )
+        f.write("\n")
+
+    print(f"Wrote {len(satellites)} TLEs to {OUTPUT_PATH}")
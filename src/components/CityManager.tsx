@@ -5,7 +5,8 @@
 
 import { useState } from 'react';
 import { useMapStore } from '../store/mapStore';
-import { City } from '../services/simpleCityService';
+import { City, getCityLocalTime } from '../services/simpleCityService';
+import { getCitySolarTimes, formatDayLength } from '../services/solarTimesService';
 
 // Lookup IANA timezone from coordinates using TimeAPI (no API key needed)
 async function lookupTimezone(lat: number, lng: number): Promise<string> {
@@ -67,9 +68,23 @@ async function geocodeCity(cityName: string): Promise<City | null> {
   }
 }
 
+/**
+ * One-line sun summary for a city: "↑ 07:31  ↓ 17:58 · 10h 28m", or polar state
+ */
+function formatSunSummary(city: City, currentTime: Date): string | null {
+  const times = getCitySolarTimes(city, currentTime);
+  if (!times) return null;
+  if (times.polar === 'day') return 'Polar day · sun never sets';
+  if (times.polar === 'night') return 'Polar night · sun never rises';
+
+  const fmt = (date: Date | null) => date ? getCityLocalTime(city.timezone, date) : '—';
+  return `↑ ${fmt(times.sunrise)}  ↓ ${fmt(times.sunset)}  ·  noon ${fmt(times.solarNoon)}  ·  ${formatDayLength(times.dayLengthMinutes)}`;
+}
+
 export const CityManager = () => {
   const { 
     cities, 
+    currentTime,
     isAddingCity, 
     addCity, 
     removeCity, 
@@ -161,6 +176,9 @@ export const CityManager = () => {
               <div className="text-blue-300 text-xs truncate">
                 {city.country}
               </div>
+              <div className="text-amber-200/70 text-[11px] font-mono truncate">
+                {formatSunSummary(city, currentTime)}
+              </div>
             </div>
             
             <button
@@ -0,0 +1,48 @@
+/**
+ * Daylight Legend — colour scale for the daylight-hours layer
+ * Follows the simulated date and shows the sun's declination, so the
+ * seasons can be watched while scrubbing the timeline.
+ */
+
+import React from 'react';
+import { useMapStore } from '../store/mapStore';
+import { getSubsolarPoint } from '../utils/nightSideGeometry';
+import { CONFIG } from '../config';
+
+const rgb = (c: readonly number[]) => `rgb(${c[0]}, ${c[1]}, ${c[2]})`;
+
+export const DaylightLegend: React.FC = () => {
+  const { currentTime } = useMapStore();
+  const { colorStops, midnightSunColor, polarNightColor } = CONFIG.styles.daylight;
+
+  const declination = getSubsolarPoint(currentTime)[1];
+  const gradient = colorStops.map(([hours, color]) => `${rgb(color)} ${(hours / 24) * 100}%`).join(', ');
+
+  return (
+    <div className="w-[220px] bg-slate-900/90 backdrop-blur-sm border border-blue-200/20 rounded-xl p-4 space-y-2 shadow-lg">
+      <div className="flex items-baseline justify-between">
+        <span className="text-[13px] font-medium text-blue-100">Hours of daylight</span>
+        <span className="text-[11px] text-slate-500">
+          δ {declination >= 0 ? '+' : '−'}{Math.abs(declination).toFixed(1)}°
+        </span>
+      </div>
+      <div className="h-2.5 rounded-full" style={{ background: `linear-gradient(to right, ${gradient})` }} />
+      <div className="flex justify-between text-[11px] text-slate-500">
+        {colorStops.map(([hours]) => <span key={hours}>{hours}h</span>)}
+      </div>
+      <div className="flex items-center gap-4 pt-1">
+        <div className="flex items-center gap-1.5">
+          <span className="w-3 h-0.5 rounded-full" style={{ backgroundColor: rgb(midnightSunColor) }} />
+          <span className="text-[11px] text-slate-400">Midnight sun</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <span className="w-3 h-0.5 rounded-full" style={{ backgroundColor: rgb(polarNightColor) }} />
+          <span className="text-[11px] text-slate-400">Polar night</span>
+        </div>
+      </div>
+      <div className="text-[11px] text-slate-600">
+        {currentTime.toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' })}
+      </div>
+    </div>
+  );
+};
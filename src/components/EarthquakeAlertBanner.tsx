@@ -0,0 +1,68 @@
+/**
+ * Earthquake Alert Banner — pinned above the panel tabs
+ * Lists events with an orange/red PAGER alert or a tsunami flag; clicking
+ * one flies the map to it. Hidden when there is nothing to react to.
+ */
+
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useMapStore } from '../store/mapStore';
+import { describeAlert, getAlertColor } from '../services/earthquakeAlertService';
+
+const MAX_LISTED = 3;
+
+/**
+ * "12 min ago", "5 h ago", "3 d ago"
+ */
+function formatAge(time: number, now: Date): string {
+  const minutes = Math.max(0, Math.round((now.getTime() - time) / 60000));
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)} h ago`;
+  return `${Math.round(minutes / 1440)} d ago`;
+}
+
+export const EarthquakeAlertBanner: React.FC = () => {
+  const { map, showEarthquakes, earthquakeAlerts } = useMapStore();
+
+  if (!showEarthquakes || earthquakeAlerts.length === 0) return null;
+
+  const now = new Date();
+  const flyTo = (longitude: number, latitude: number) => {
+    map?.flyTo({ center: [longitude, latitude], zoom: Math.max(map.getZoom(), 5), essential: true });
+  };
+
+  return (
+    <div className="mx-8 mb-4 shrink-0 rounded-lg border border-red-500/40 bg-red-500/10 p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <AlertTriangle className="w-4 h-4 text-red-400" />
+        <span className="text-[13px] font-medium text-red-200">
+          {earthquakeAlerts.length} earthquake alert{earthquakeAlerts.length === 1 ? '' : 's'}
+        </span>
+      </div>
+      {earthquakeAlerts.slice(0, MAX_LISTED).map(alert => {
+        const [r, g, b] = getAlertColor(alert.pagerLevel);
+        return (
+          <button
+            key={alert.id}
+            onClick={() => flyTo(alert.longitude, alert.latitude)}
+            className="w-full flex items-start gap-2 text-left px-2 py-1.5 rounded hover:bg-red-500/10 transition-colors"
+            title="Show on map"
+          >
+            <span className="w-2.5 h-2.5 mt-1 rounded-full shrink-0" style={{ backgroundColor: `rgb(${r}, ${g}, ${b})` }} />
+            <div className="min-w-0">
+              <div className="text-[12px] text-blue-100 truncate">
+                <span className="font-mono font-semibold">M{alert.magnitude.toFixed(1)}</span> · {describeAlert(alert)}
+              </div>
+              <div className="text-[11px] text-slate-400 truncate">
+                {alert.place} · {formatAge(alert.time, now)}
+              </div>
+            </div>
+          </button>
+        );
+      })}
+      {earthquakeAlerts.length > MAX_LISTED && (
+        <div className="text-[11px] text-slate-500 pl-2">+{earthquakeAlerts.length - MAX_LISTED} more on the map</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+/**
+ * Earthquake Depth Legend — colour key for hypocentre depth classes
+ * In the 3D depth view it also explains how to tilt and turn the map.
+ */
+
+import React from 'react';
+import { useMapStore } from '../store/mapStore';
+import { CONFIG } from '../config';
+
+const rgb = (c: readonly number[]) => `rgb(${c[0]}, ${c[1]}, ${c[2]})`;
+
+export const EarthquakeDepthLegend: React.FC = () => {
+  const { showEarthquakeDepth3D } = useMapStore();
+  const { depthClasses, depthView } = CONFIG.styles.earthquakes;
+
+  return (
+    <div className="w-[220px] bg-slate-900/90 backdrop-blur-sm border border-blue-200/20 rounded-xl p-4 space-y-2 shadow-lg">
+      <div className="flex items-baseline justify-between">
+        <span className="text-[13px] font-medium text-blue-100">Earthquake depth</span>
+        {showEarthquakeDepth3D && (
+          <span className="text-[11px] text-slate-500">3D ×{depthView.depthExaggeration}</span>
+        )}
+      </div>
+      <div className="space-y-1">
+        {depthClasses.map((depthClass, i) => {
+          const from = i === 0 ? 0 : depthClasses[i - 1].maxDepthKm;
+          const range = Number.isFinite(depthClass.maxDepthKm) ? `${from}–${depthClass.maxDepthKm} km` : `${from}+ km`;
+          return (
+            <div key={depthClass.key} className="flex items-center gap-2">
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: rgb(depthClass.color) }} />
+              <span className="text-[11px] text-slate-400 flex-1">{depthClass.label}</span>
+              <span className="text-[11px] text-slate-500 font-mono">{range}</span>
+            </div>
+          );
+        })}
+      </div>
+      {showEarthquakeDepth3D && (
+        <div className="text-[11px] text-slate-600">Right-drag or Ctrl-drag to tilt and turn</div>
+      )}
+    </div>
+  );
+};
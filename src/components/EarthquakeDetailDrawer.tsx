@@ -0,0 +1,185 @@
+/**
+ * Earthquake Detail Drawer — opened by clicking an earthquake
+ * Shows what the USGS detail feed adds to the summary: magnitude type,
+ * review status, felt reports and the focal mechanism. ShakeMap contours
+ * for the event are drawn on the map while the drawer is open.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { ExternalLink, X } from 'lucide-react';
+import { useMapStore } from '../store/mapStore';
+import { formatIntensity, getRadiationPattern, type FocalMechanism } from '../services/earthquakeDetailService';
+import { CONFIG } from '../config';
+
+/**
+ * Lower-hemisphere, equal-area beachball drawn pixel by pixel
+ */
+const Beachball: React.FC<{ mechanism: FocalMechanism }> = ({ mechanism }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { beachballSize, compressionColor } = CONFIG.styles.earthquakes.detail;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const scale = window.devicePixelRatio || 1;
+    const size = Math.round(beachballSize * scale);
+    canvas.width = size;
+    canvas.height = size;
+
+    const radiation = getRadiationPattern(mechanism);
+    const image = context.createImageData(size, size);
+    const radius = size / 2;
+
+    for (let py = 0; py < size; py++) {
+      for (let px = 0; px < size; px++) {
+        const east = (px + 0.5 - radius) / radius;
+        const north = (radius - py - 0.5) / radius;
+        const r = Math.hypot(east, north);
+        if (r > 1) continue;
+
+        // Equal-area (Schmidt) projection: r = √2·sin(θ/2), θ measured from straight down
+        const θ = 2 * Math.asin(r / Math.SQRT2);
+        const horizontal = r > 0 ? Math.sin(θ) / r : 0;
+        const compression = radiation(north * horizontal, east * horizontal, Math.cos(θ)) > 0;
+
+        const i = (py * size + px) * 4;
+        const [red, green, blue] = compression ? compressionColor : [248, 250, 252];
+        image.data[i] = red;
+        image.data[i + 1] = green;
+        image.data[i + 2] = blue;
+        image.data[i + 3] = 255;
+      }
+    }
+
+    context.putImageData(image, 0, 0);
+    context.beginPath();
+    context.arc(radius, radius, radius - scale, 0, 2 * Math.PI);
+    context.lineWidth = scale;
+    context.strokeStyle = '#0f172a';
+    context.stroke();
+  }, [mechanism, beachballSize, compressionColor]);
+
+  return <canvas ref={canvasRef} style={{ width: beachballSize, height: beachballSize }} />;
+};
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex justify-between gap-4 text-[12px]">
+    <span className="text-slate-500">{label}</span>
+    <span className="text-blue-100 text-right">{children}</span>
+  </div>
+);
+
+export const EarthquakeDetailDrawer: React.FC = () => {
+  const {
+    selectedEarthquake,
+    earthquakeDetail: detail,
+    isEarthquakeDetailLoading,
+    earthquakeDetailError,
+    closeEarthquakeDetail,
+  } = useMapStore();
+
+  // Escape closes the drawer
+  useEffect(() => {
+    if (!selectedEarthquake) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') closeEarthquakeDetail();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [selectedEarthquake, closeEarthquakeDetail]);
+
+  if (!selectedEarthquake) return null;
+
+  const intensities = detail ? [...new Set(detail.shakemapContours.map(contour => contour.mmi))].sort((a, b) => a - b) : [];
+
+  return (
+    <div className="absolute top-6 left-6 z-40 w-[320px] max-h-[60vh] overflow-y-auto bg-slate-900/95 backdrop-blur-sm border border-blue-200/20 rounded-xl p-4 space-y-3 shadow-lg">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="text-[15px] font-semibold text-amber-300">
+            {detail ? `M${detail.magnitude.toFixed(1)} ${detail.magType}` : selectedEarthquake.title}
+          </div>
+          <div className="text-[12px] text-slate-400 truncate">{detail?.place}</div>
+        </div>
+        <button
+          onClick={closeEarthquakeDetail}
+          className="p-1 text-slate-400 hover:text-white rounded hover:bg-slate-700/50 transition-colors"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {isEarthquakeDetailLoading && (
+        <div className="flex items-center gap-2 text-[12px] text-blue-300/60">
+          <div className="w-4 h-4 border-2 border-blue-300 border-t-transparent rounded-full animate-spin" />
+          Loading USGS detail...
+        </div>
+      )}
+
+      {earthquakeDetailError && (
+        <div className="text-red-400 text-xs bg-red-400/10 px-2 py-1 rounded">{earthquakeDetailError}</div>
+      )}
+
+      {detail && (
+        <>
+          <div className="space-y-1">
+            <DetailRow label="Time">
+              {new Date(detail.time).toLocaleString('en-US', { timeZone: 'UTC', dateStyle: 'medium', timeStyle: 'short' })} UTC
+            </DetailRow>
+            <DetailRow label="Depth">{Math.round(detail.depthKm)} km</DetailRow>
+            <DetailRow label="Review status">
+              <span className={detail.status === 'reviewed' ? 'text-green-400' : 'text-amber-300'}>{detail.status}</span>
+            </DetailRow>
+            <DetailRow label="Felt reports">
+              {detail.felt ? `${detail.felt.toLocaleString()}${detail.cdi ? ` · max ${formatIntensity(detail.cdi)}` : ''}` : 'None'}
+            </DetailRow>
+            {detail.mmi !== null && <DetailRow label="Max intensity">MMI {formatIntensity(detail.mmi)}</DetailRow>}
+            {detail.alert && <DetailRow label="PAGER alert">{detail.alert}</DetailRow>}
+            {detail.tsunami && <DetailRow label="Tsunami">Flagged</DetailRow>}
+          </div>
+
+          {/* Focal mechanism */}
+          <div className="border-t border-blue-200/10 pt-3">
+            <div className="text-[11px] text-slate-500 uppercase tracking-wide mb-2">Focal mechanism</div>
+            {detail.focalMechanism ? (
+              <div className="flex items-center gap-4">
+                <Beachball mechanism={detail.focalMechanism} />
+                <div className="space-y-1 text-[12px] font-mono text-blue-100">
+                  <div>Strike {Math.round(detail.focalMechanism.strike)}°</div>
+                  <div>Dip {Math.round(detail.focalMechanism.dip)}°</div>
+                  <div>Rake {Math.round(detail.focalMechanism.rake)}°</div>
+                  <div className="text-[11px] text-slate-500 font-sans">{detail.focalMechanism.source.replace('-', ' ')}</div>
+                </div>
+              </div>
+            ) : (
+              <div className="text-[12px] text-slate-500">Not published for this event</div>
+            )}
+          </div>
+
+          {/* ShakeMap */}
+          <div className="border-t border-blue-200/10 pt-3">
+            <div className="text-[11px] text-slate-500 uppercase tracking-wide mb-1">ShakeMap</div>
+            <div className="text-[12px] text-blue-100">
+              {intensities.length > 0
+                ? `Intensity contours ${formatIntensity(intensities[0])}–${formatIntensity(intensities[intensities.length - 1])} on the map`
+                : <span className="text-slate-500">Not published for this event</span>}
+            </div>
+          </div>
+
+          <a
+            href={detail.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1.5 text-[12px] text-blue-300 hover:text-blue-200 transition-colors"
+          >
+            View on USGS <ExternalLink className="w-3 h-3" />
+          </a>
+        </>
+      )}
+    </div>
+  );
+};
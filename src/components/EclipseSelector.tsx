@@ -0,0 +1,62 @@
+/**
+ * Eclipse Selector — upcoming solar and lunar eclipses
+ * Lists the next few eclipses after the simulated time; selecting one draws
+ * its path or visibility region, selecting it again clears the map.
+ */
+
+import React, { useMemo } from 'react';
+import { Eclipse } from 'lucide-react';
+import { useMapStore } from '../store/mapStore';
+import { formatEclipseName, getUpcomingEclipses } from '../services/eclipseService';
+import { CONFIG } from '../config';
+
+function formatEclipseDate(date: Date): string {
+  return date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+export const EclipseSelector: React.FC = () => {
+  const { currentTime, selectedEclipse, setSelectedEclipse } = useMapStore();
+
+  // Recomputed once per simulated day (the service caches by date)
+  const dayKey = currentTime.toISOString().slice(0, 10);
+  const eclipses = useMemo(
+    () => getUpcomingEclipses(new Date(`${dayKey}T00:00:00Z`), CONFIG.styles.eclipse.upcomingCount),
+    [dayKey]
+  );
+
+  // Keep a past selection in the list so it can still be cleared
+  const items = selectedEclipse && !eclipses.some(e => e.id === selectedEclipse.id)
+    ? [selectedEclipse, ...eclipses]
+    : eclipses;
+
+  return (
+    <div className="bg-slate-800/30 rounded-xl p-5 space-y-2">
+      <div className="flex items-center gap-3">
+        <Eclipse className="w-5 h-5 text-indigo-400" />
+        <span className="text-[15px] font-medium text-blue-100">Eclipses</span>
+      </div>
+      <p className="text-[13px] text-slate-500 pl-8">Path and visibility of upcoming eclipses</p>
+      <div className="space-y-1.5 pl-8">
+        {items.map(eclipse => {
+          const selected = selectedEclipse?.id === eclipse.id;
+          return (
+            <div
+              key={eclipse.id}
+              onClick={() => setSelectedEclipse(selected ? null : eclipse)}
+              className={`flex items-center justify-between px-3 py-2 rounded-lg cursor-pointer transition-all ${
+                selected
+                  ? 'bg-blue-600/20 border border-blue-400/50'
+                  : 'bg-slate-800/30 hover:bg-slate-800/60 border border-transparent'
+              }`}
+            >
+              <span className={`text-[13px] ${selected ? 'text-blue-100' : 'text-slate-400'}`}>
+                {formatEclipseName(eclipse)}
+              </span>
+              <span className="text-[11px] text-slate-500">{formatEclipseDate(eclipse.peak)}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+/**
+ * ISS Passes Component - Next visible ISS passes over each city
+ * A pass is listed only while the city is dark and the station sunlit;
+ * the highlight button draws that stretch of ground track on the map.
+ */
+
+import { useEffect, useState } from 'react';
+import { useMapStore } from '../store/mapStore';
+import { getCityLocalTime } from '../services/simpleCityService';
+import {
+  formatCompassDirection, loadTle, predictVisiblePasses, type TleRecord, type VisiblePass,
+} from '../services/satelliteOrbitService';
+import { CONFIG } from '../config';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * "Tue 12" in the city's own timezone
+ */
+function formatPassDay(timezone: string, date: Date): string {
+  return date.toLocaleDateString('en-US', { weekday: 'short', day: 'numeric', timeZone: timezone });
+}
+
+export const ISSPasses = () => {
+  const { cities, currentTime, showISS, highlightedPass, toggleISS, setHighlightedPass } = useMapStore();
+  const [tle, setTle] = useState<TleRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [passes, setPasses] = useState<Record<string, VisiblePass[]>>({});
+
+  useEffect(() => {
+    loadTle(CONFIG.satellites.issNoradId)
+      .then(setTle)
+      .catch(() => setError('ISS orbit unavailable'));
+  }, []);
+
+  // Prediction is expensive (days of SGP4 per city), so it covers a window
+  // that only moves once the clock leaves it — even at fast playback speeds.
+  // Passes already over are filtered below.
+  const time = currentTime.getTime();
+  const [windowStart, setWindowStart] = useState(() => Math.floor(time / HOUR_MS) * HOUR_MS);
+  useEffect(() => {
+    if (time < windowStart || time > windowStart + CONFIG.satellites.passes.repredictAfterDays * DAY_MS) {
+      setWindowStart(Math.floor(time / HOUR_MS) * HOUR_MS);
+    }
+  }, [time, windowStart]);
+
+  useEffect(() => {
+    if (!tle) return;
+    const observers = cities.map(city => ({
+      id: city.id,
+      longitude: city.coordinates[0],
+      latitude: city.coordinates[1],
+    }));
+    setPasses(predictVisiblePasses(tle, observers, new Date(windowStart)));
+  }, [tle, cities, windowStart]);
+
+  const handleHighlight = (cityId: string, pass: VisiblePass) => {
+    const isActive = highlightedPass?.cityId === cityId && highlightedPass.start === pass.start.getTime();
+    if (isActive) {
+      setHighlightedPass(null);
+      return;
+    }
+    if (!showISS) toggleISS();
+    setHighlightedPass({ cityId, start: pass.start.getTime(), end: pass.end.getTime() });
+  };
+
+  return (
+    <div className="border-t border-blue-200/10 pt-6">
+      <h3 className="text-sm font-medium text-blue-200 mb-4 uppercase tracking-wide">
+        ISS Passes ({CONFIG.satellites.passes.days} days)
+      </h3>
+
+      {error && (
+        <div className="text-red-400 text-xs bg-red-400/10 px-2 py-1 rounded mb-3">
+          {error}
+        </div>
+      )}
+
+      {!tle && !error && (
+        <div className="text-xs text-blue-300/60 mb-3">Loading ISS orbit...</div>
+      )}
+
+      {tle && (
+        <div className="space-y-3">
+          {cities.map(city => {
+            const upcoming = (passes[city.id] ?? [])
+              .filter(pass => pass.end > currentTime)
+              .slice(0, CONFIG.satellites.passes.maxListed);
+
+            return (
+              <div key={city.id} className="p-2 bg-slate-800/30 rounded-md">
+                <div className="text-blue-100 text-sm font-medium truncate mb-1">{city.name}</div>
+                {upcoming.length === 0 && (
+                  <div className="text-xs text-slate-500">No visible passes</div>
+                )}
+                {upcoming.map(pass => {
+                  const isActive = highlightedPass?.cityId === city.id && highlightedPass.start === pass.start.getTime();
+                  return (
+                    <div key={pass.start.getTime()} className="flex items-center justify-between gap-2 py-1">
+                      <div className="min-w-0">
+                        <div className="text-[12px] text-blue-100 font-mono truncate">
+                          {formatPassDay(city.timezone, pass.start)} · {getCityLocalTime(city.timezone, pass.start)}–{getCityLocalTime(city.timezone, pass.end)}
+                        </div>
+                        <div className="text-[11px] text-slate-400 truncate">
+                          {formatCompassDirection(pass.startAzimuth)} → {formatCompassDirection(pass.endAzimuth)}
+                          {' · '}max {Math.round(pass.maxElevation)}° at {getCityLocalTime(city.timezone, pass.peak)}
+                          {' · '}mag {pass.magnitude.toFixed(1)}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleHighlight(city.id, pass)}
+                        className={`shrink-0 px-2 py-1 text-[11px] rounded transition-colors border ${
+                          isActive
+                            ? 'bg-yellow-400/20 border-yellow-400/60 text-yellow-200'
+                            : 'bg-slate-700 hover:bg-slate-600 border-blue-200/20 text-blue-100'
+                        }`}
+                        title="Highlight this pass on the ground track"
+                      >
+                        {isActive ? 'Shown' : 'Show'}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Usage hint */}
+      <div className="mt-3 text-xs text-blue-300/60">
+        Visible when the sky is dark and the station is sunlit · lower magnitude is brighter
+      </div>
+    </div>
+  );
+};
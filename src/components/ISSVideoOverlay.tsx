@@ -1,43 +1,249 @@
 /**
  * ISS Video Overlay Component
  * Shows YouTube livestream of ISS when ISS icon is clicked
- * Tabs to switch between HD Views and Live Video streams
+ * Streams come from the runtime manifest; a stream that errors, ends or
+ * never starts is skipped in favour of the next one.
+ *
+ * The window can stay pinned to the station, be dragged anywhere, dock to a
+ * screen corner, be resized, or pop out into a Document Picture-in-Picture
+ * window. Once detached, a leader line points back to the station.
  */
 
 import React, { useEffect, useRef, useState } from 'react';
-import { useMapStore } from '../store/mapStore';
+import { createPortal } from 'react-dom';
+import { Crosshair, PictureInPicture2, Pin, PinOff } from 'lucide-react';
+import { useMapStore, getSimulatedTime } from '../store/mapStore';
+import { getISSPosition } from '../layers/ISSLayer';
+import { loadISSStreams, type ISSStream } from '../services/issStreamService';
+import {
+  loadVideoLayout, saveVideoLayout, type VideoDockCorner, type VideoWindowLayout,
+} from '../services/issVideoLayoutService';
 import { CONFIG } from '../config';
 
-const streams = CONFIG.styles.iss.streams;
+// Minimal slice of the YouTube IFrame Player API
+interface YouTubePlayer {
+  destroy: () => void;
+  mute: () => void;
+  playVideo: () => void;
+}
+
+interface YouTubeApi {
+  Player: new (element: HTMLElement, options: Record<string, unknown>) => YouTubePlayer;
+}
+
+declare global {
+  interface Window {
+    YT?: YouTubeApi;
+    onYouTubeIframeAPIReady?: () => void;
+  }
+}
+
+const PLAYER_STATE = { ENDED: 0, PLAYING: 1, PAUSED: 2, CUED: 5 };
+
+// Document Picture-in-Picture (Chromium) — the only PiP that can hold an iframe
+interface DocumentPictureInPicture {
+  requestWindow: (options: { width: number; height: number }) => Promise<Window>;
+}
+
+function getDocumentPictureInPicture(): DocumentPictureInPicture | null {
+  return (window as unknown as { documentPictureInPicture?: DocumentPictureInPicture }).documentPictureInPicture ?? null;
+}
+
+interface WindowRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const VIEWPORT_PADDING = 10;
+
+/**
+ * Where the window sits on screen for its layout mode, kept inside the viewport
+ */
+function getWindowRect(layout: VideoWindowLayout, issPoint: { x: number; y: number } | null): WindowRect | null {
+  const { margin } = CONFIG.styles.iss.videoWindow;
+  const { width, height } = layout;
+  const viewportWidth = window.innerWidth;
+  const viewportHeight = window.innerHeight;
+
+  let left: number;
+  let top: number;
+  if (layout.mode === 'pinned') {
+    if (!issPoint) return null;
+    left = issPoint.x - width / 2;
+    top = issPoint.y - height / 2;
+  } else if (layout.mode === 'docked') {
+    left = layout.corner.endsWith('left') ? margin : viewportWidth - width - margin;
+    top = layout.corner.startsWith('top') ? margin : viewportHeight - height - margin;
+  } else {
+    left = layout.left;
+    top = layout.top;
+  }
+
+  left = Math.max(VIEWPORT_PADDING, Math.min(left, viewportWidth - width - VIEWPORT_PADDING));
+  top = Math.max(VIEWPORT_PADDING, Math.min(top, viewportHeight - height - VIEWPORT_PADDING));
+  return { left, top, width, height };
+}
+
+/**
+ * Corner the window was dropped near, if any
+ */
+function getSnapCorner(rect: WindowRect): VideoDockCorner | null {
+  const { margin, snapDistance } = CONFIG.styles.iss.videoWindow;
+  const nearLeft = rect.left <= margin + snapDistance;
+  const nearRight = window.innerWidth - (rect.left + rect.width) <= margin + snapDistance;
+  const nearTop = rect.top <= margin + snapDistance;
+  const nearBottom = window.innerHeight - (rect.top + rect.height) <= margin + snapDistance;
+
+  if (nearTop && nearLeft) return 'top-left';
+  if (nearTop && nearRight) return 'top-right';
+  if (nearBottom && nearLeft) return 'bottom-left';
+  if (nearBottom && nearRight) return 'bottom-right';
+  return null;
+}
+
+/**
+ * Point on the window's edge closest to the station, for the leader line
+ */
+function getLeaderStart(rect: WindowRect, target: { x: number; y: number }): { x: number; y: number } {
+  return {
+    x: Math.max(rect.left, Math.min(target.x, rect.left + rect.width)),
+    y: Math.max(rect.top, Math.min(target.y, rect.top + rect.height)),
+  };
+}
+
+let youTubeApiPromise: Promise<YouTubeApi> | null = null;
+
+function loadYouTubeApi(): Promise<YouTubeApi> {
+  if (!youTubeApiPromise) {
+    youTubeApiPromise = new Promise((resolve, reject) => {
+      if (window.YT?.Player) {
+        resolve(window.YT);
+        return;
+      }
+      const previousReady = window.onYouTubeIframeAPIReady;
+      window.onYouTubeIframeAPIReady = () => {
+        previousReady?.();
+        resolve(window.YT!);
+      };
+      const script = document.createElement('script');
+      script.src = 'https://www.youtube.com/iframe_api';
+      script.onerror = () => {
+        youTubeApiPromise = null;
+        reject(new Error('YouTube player failed to load'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return youTubeApiPromise;
+}
 
 const ISSVideoOverlay: React.FC = () => {
-  const { issVideoVisible, hideISSVideo, map, issManager } = useMapStore();
+  const { issVideoVisible, hideISSVideo, map, issManager, followISS, toggleFollowISS } = useMapStore();
   const overlayRef = useRef<HTMLDivElement>(null);
+  const playerHostRef = useRef<HTMLDivElement>(null);
+  const interactionRef = useRef<{ kind: 'move' | 'resize'; startX: number; startY: number; startRect: WindowRect } | null>(null);
+  const [streams, setStreams] = useState<ISSStream[]>([]);
+  const [failedStreams, setFailedStreams] = useState<Set<string>>(new Set());
   const [isVideoLoaded, setIsVideoLoaded] = useState(false);
   const [activeStream, setActiveStream] = useState(0);
-  const [videoPosition, setVideoPosition] = useState<{left: number, top: number} | null>(null);
+  const [issPoint, setISSPoint] = useState<{ x: number; y: number } | null>(null);
+  const [layout, setLayout] = useState<VideoWindowLayout>(loadVideoLayout);
+  const [isInteracting, setIsInteracting] = useState(false);
+  const [pipWindow, setPipWindow] = useState<Window | null>(null);
+  const [, setViewportVersion] = useState(0);
 
-  // Reset loading state when video overlay opens
+  // Load the stream manifest and start from the first entry when the overlay opens
   useEffect(() => {
     if (issVideoVisible) {
-      setIsVideoLoaded(false);
       setActiveStream(0);
-      const timeout = setTimeout(() => {
-        setIsVideoLoaded(true);
-      }, 3000);
-      return () => clearTimeout(timeout);
+      setFailedStreams(new Set());
+      loadISSStreams().then(setStreams);
     }
   }, [issVideoVisible]);
 
-  // Reset loading state when switching streams
-  const handleStreamSwitch = (index: number) => {
-    if (index === activeStream) return;
+  const rect = getWindowRect(layout, issPoint);
+  const currentStream: ISSStream | undefined = streams[activeStream];
+  const isPlaced = rect !== null || pipWindow !== null; // the player host only renders once placed
+  const allFailed = streams.length > 0 && streams.every(stream => failedStreams.has(stream.id));
+
+  // Mount a player for the active stream; fail over on error, end or no start
+  useEffect(() => {
+    const host = playerHostRef.current;
+    if (!issVideoVisible || !isPlaced || !currentStream || !host || failedStreams.has(currentStream.id)) return;
+
+    let player: YouTubePlayer | null = null;
+    let cancelled = false;
+    let started = false;
+
+    const failOver = () => {
+      if (cancelled) return;
+      cancelled = true;
+      const failed = new Set(failedStreams).add(currentStream.id);
+      setFailedStreams(failed);
+      const next = streams.findIndex((stream, i) => i > activeStream && !failed.has(stream.id));
+      const wrapped = next >= 0 ? next : streams.findIndex(stream => !failed.has(stream.id));
+      if (wrapped >= 0) setActiveStream(wrapped);
+    };
+
     setIsVideoLoaded(false);
+    const startTimeout = setTimeout(() => {
+      if (!started) failOver();
+    }, CONFIG.styles.iss.streamStartTimeoutMs);
+
+    loadYouTubeApi().then(YT => {
+      if (cancelled) return;
+      // The API replaces its element with an iframe, so give it one React doesn't own
+      const mount = document.createElement('div');
+      host.appendChild(mount);
+      player = new YT.Player(mount, {
+        videoId: currentStream.id,
+        width: '100%',
+        height: '100%',
+        playerVars: { autoplay: 1, mute: 1, controls: 1, modestbranding: 1, rel: 0, playsinline: 1 },
+        events: {
+          onReady: (event: { target: YouTubePlayer }) => {
+            event.target.mute();
+            event.target.playVideo();
+          },
+          onStateChange: (event: { data: number }) => {
+            if (event.data === PLAYER_STATE.ENDED) {
+              failOver();
+            } else if ([PLAYER_STATE.PLAYING, PLAYER_STATE.PAUSED, PLAYER_STATE.CUED].includes(event.data)) {
+              // Paused or cued (autoplay blocked) still means the stream exists
+              started = true;
+              setIsVideoLoaded(true);
+            }
+          },
+          onError: failOver,
+        },
+      });
+    }).catch(failOver);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(startTimeout);
+      player?.destroy();
+      host.replaceChildren();
+    };
+  }, [issVideoVisible, isPlaced, pipWindow, currentStream, streams, activeStream, failedStreams]);
+
+  // Manual switch — also gives a previously failed stream another try
+  const handleStreamSwitch = (index: number) => {
+    if (index === activeStream && !failedStreams.has(streams[index].id)) return;
+    const failed = new Set(failedStreams);
+    failed.delete(streams[index].id);
+    setFailedStreams(failed);
     setActiveStream(index);
-    setTimeout(() => setIsVideoLoaded(true), 3000);
   };
 
-  // Track ISS position and update video window position
+  const handleRetry = () => {
+    setFailedStreams(new Set());
+    setActiveStream(0);
+  };
+
+  // Track the station's screen position (pinned placement and leader line)
   useEffect(() => {
     if (!issVideoVisible || !map || !issManager) {
       return;
@@ -45,26 +251,11 @@ const ISSVideoOverlay: React.FC = () => {
 
     const updateVideoPosition = () => {
       try {
-        const issData = issManager.getData();
-        if (issData?.currentPosition) {
-          const { latitude, longitude } = issData.currentPosition;
-
+        const position = getISSPosition(getSimulatedTime(useMapStore.getState()));
+        if (position) {
+          const { latitude, longitude } = position;
           const screenCoords = map.project([longitude, latitude]);
-
-          const videoWidth = 320;
-          const videoHeight = 200;
-
-          let left = screenCoords.x - videoWidth / 2;
-          let top = screenCoords.y - videoHeight / 2;
-
-          const padding = 10;
-          const viewportWidth = window.innerWidth;
-          const viewportHeight = window.innerHeight;
-
-          left = Math.max(padding, Math.min(left, viewportWidth - videoWidth - padding));
-          top = Math.max(padding, Math.min(top, viewportHeight - videoHeight - padding));
-
-          setVideoPosition({ left, top });
+          setISSPoint({ x: screenCoords.x, y: screenCoords.y });
         }
       } catch (error) {
         // Silent error handling for video position updates
@@ -107,30 +298,149 @@ const ISSVideoOverlay: React.FC = () => {
     }
   }, [issVideoVisible, hideISSVideo]);
 
-  const handleIframeLoad = () => {
-    setIsVideoLoaded(true);
+  // Re-clamp docked and floating windows when the browser is resized
+  useEffect(() => {
+    const handleResize = () => setViewportVersion(version => version + 1);
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // Closing the overlay also closes a popped-out window
+  useEffect(() => {
+    if (!issVideoVisible && pipWindow) {
+      pipWindow.close();
+      setPipWindow(null);
+    }
+  }, [issVideoVisible, pipWindow]);
+
+  const updateLayout = (changes: Partial<VideoWindowLayout>) => {
+    const next = { ...layout, ...changes };
+    setLayout(next);
+    saveVideoLayout(next);
+  };
+
+  const handleTogglePin = () => {
+    if (layout.mode === 'pinned' && rect) {
+      updateLayout({ mode: 'floating', left: rect.left, top: rect.top });
+    } else {
+      updateLayout({ mode: 'pinned' });
+    }
+  };
+
+  const handlePopOut = async () => {
+    const documentPip = getDocumentPictureInPicture();
+    if (!documentPip) return;
+    try {
+      const { headerHeight } = CONFIG.styles.iss.videoWindow;
+      const pip = await documentPip.requestWindow({ width: layout.width, height: layout.height - headerHeight });
+      pip.document.title = currentStream ? `ISS ${currentStream.label}` : 'ISS';
+      pip.document.body.style.cssText = 'margin: 0; background: black; overflow: hidden;';
+      pip.addEventListener('pagehide', () => setPipWindow(null));
+      setPipWindow(pip);
+    } catch (error) {
+      console.warn('Picture-in-Picture unavailable:', error);
+    }
+  };
+
+  // Drag by the header, resize by the corner grip — pointer capture keeps
+  // the events coming while the cursor is over the video iframe
+  const startInteraction = (kind: 'move' | 'resize') => (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!rect || event.button !== 0) return;
+    if (kind === 'move' && (event.target as HTMLElement).closest('button')) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    interactionRef.current = { kind, startX: event.clientX, startY: event.clientY, startRect: rect };
+    setIsInteracting(true);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const interaction = interactionRef.current;
+    if (!interaction) return;
+    const dx = event.clientX - interaction.startX;
+    const dy = event.clientY - interaction.startY;
+    const { startRect } = interaction;
+
+    if (interaction.kind === 'move') {
+      setLayout({ ...layout, mode: 'floating', left: startRect.left + dx, top: startRect.top + dy });
+    } else {
+      const { minWidth, minHeight, maxWidth, maxHeight } = CONFIG.styles.iss.videoWindow;
+      setLayout({
+        ...layout,
+        width: Math.max(minWidth, Math.min(maxWidth, startRect.width + dx)),
+        height: Math.max(minHeight, Math.min(maxHeight, startRect.height + dy)),
+      });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const interaction = interactionRef.current;
+    if (!interaction) return;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    interactionRef.current = null;
+    setIsInteracting(false);
+
+    // Dropping a dragged window near a corner docks it there
+    const corner = interaction.kind === 'move' && rect ? getSnapCorner(rect) : null;
+    updateLayout(corner ? { mode: 'docked', corner } : {});
   };
 
-  if (!issVideoVisible || !videoPosition) {
+  if (!issVideoVisible) {
+    return null;
+  }
+
+  // Popped out — the player lives in the Picture-in-Picture window
+  if (pipWindow) {
+    return createPortal(
+      <div ref={playerHostRef} style={{ width: '100vw', height: '100vh' }} />,
+      pipWindow.document.body
+    );
+  }
+
+  if (!rect) {
     return null;
   }
 
-  const currentStream = streams[activeStream] ?? streams[0];
+  const { headerHeight } = CONFIG.styles.iss.videoWindow;
+  const leaderStart = issPoint ? getLeaderStart(rect, issPoint) : null;
+  const showLeader = layout.mode !== 'pinned' && issPoint !== null && leaderStart !== null
+    && (leaderStart.x !== issPoint.x || leaderStart.y !== issPoint.y);
 
   return (
+    <>
+    {/* Leader line from the detached window to the station */}
+    {showLeader && leaderStart && (
+      <svg className="fixed inset-0 w-full h-full pointer-events-none z-40">
+        <line
+          x1={leaderStart.x}
+          y1={leaderStart.y}
+          x2={issPoint!.x}
+          y2={issPoint!.y}
+          stroke="rgb(250 204 21 / 0.5)"
+          strokeWidth="1"
+          strokeDasharray="4 3"
+        />
+        <circle cx={issPoint!.x} cy={issPoint!.y} r="3" fill="none" stroke="rgb(250 204 21 / 0.7)" strokeWidth="1" />
+      </svg>
+    )}
+
     <div
       ref={overlayRef}
       className="fixed border border-yellow-400/30 rounded overflow-hidden shadow-2xl z-50"
       style={{
-        left: `${videoPosition.left}px`,
-        top: `${videoPosition.top}px`,
-        width: '320px',
-        height: '200px',
+        left: `${rect.left}px`,
+        top: `${rect.top}px`,
+        width: `${rect.width}px`,
+        height: `${rect.height}px`,
         pointerEvents: 'all',
       }}
     >
-      {/* Header with tabs and close button */}
-      <div className="bg-black/80 backdrop-blur-sm px-1.5 py-1 flex items-center justify-between border-b border-yellow-400/20">
+      {/* Header with tabs and window controls — also the drag handle */}
+      <div
+        className="bg-black/80 backdrop-blur-sm px-1.5 py-1 flex items-center justify-between border-b border-yellow-400/20 cursor-move select-none touch-none"
+        style={{ height: `${headerHeight}px` }}
+        onPointerDown={startInteraction('move')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
         <div className="flex items-center gap-1">
           <span className="text-yellow-400 text-xs mr-1">{'\u{1F6F0}\uFE0F'}</span>
           {streams.map((stream, i) => (
@@ -141,41 +451,74 @@ const ISSVideoOverlay: React.FC = () => {
                 i === activeStream
                   ? 'bg-yellow-400/20 text-yellow-400'
                   : 'text-gray-400 hover:text-gray-200'
-              }`}
+              } ${failedStreams.has(stream.id) ? 'line-through opacity-60' : ''}`}
+              title={failedStreams.has(stream.id) ? 'Stream unavailable — click to retry' : undefined}
             >
               {stream.label}
             </button>
           ))}
         </div>
-        <button
-          onClick={hideISSVideo}
-          className="text-gray-400 hover:text-white transition-colors p-0.5 rounded hover:bg-gray-700/50"
-          title="Close"
-        >
-          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-            <line x1="18" y1="6" x2="6" y2="18"></line>
-            <line x1="6" y1="6" x2="18" y2="18"></line>
-          </svg>
-        </button>
+        <div className="flex items-center gap-0.5">
+          <button
+            onClick={toggleFollowISS}
+            className={`transition-colors p-0.5 rounded hover:bg-gray-700/50 ${
+              followISS ? 'text-yellow-400' : 'text-gray-400 hover:text-white'
+            }`}
+            title={followISS ? 'Stop following the station (F)' : 'Follow the station (F)'}
+          >
+            <Crosshair className="w-3 h-3" />
+          </button>
+          <button
+            onClick={handleTogglePin}
+            className="text-gray-400 hover:text-white transition-colors p-0.5 rounded hover:bg-gray-700/50"
+            title={layout.mode === 'pinned' ? 'Detach from the station' : 'Pin to the station'}
+          >
+            {layout.mode === 'pinned' ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+          </button>
+          {getDocumentPictureInPicture() && (
+            <button
+              onClick={handlePopOut}
+              className="text-gray-400 hover:text-white transition-colors p-0.5 rounded hover:bg-gray-700/50"
+              title="Picture-in-Picture"
+            >
+              <PictureInPicture2 className="w-3 h-3" />
+            </button>
+          )}
+          <button
+            onClick={hideISSVideo}
+            className="text-gray-400 hover:text-white transition-colors p-0.5 rounded hover:bg-gray-700/50"
+            title="Close"
+          >
+            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
       </div>
 
       {/* Video area */}
-      <div className="relative bg-black" style={{ height: '180px' }}>
-        <iframe
-          key={currentStream.id}
-          src={`https://www.youtube.com/embed/${currentStream.id}?autoplay=1&mute=1&controls=1&modestbranding=1&rel=0`}
-          width="100%"
-          height="100%"
-          frameBorder="0"
-          allow="autoplay; encrypted-media; fullscreen"
-          allowFullScreen
-          title={`ISS ${currentStream.label}`}
-          className="w-full h-full"
-          onLoad={handleIframeLoad}
-        />
+      <div className="relative bg-black" style={{ height: `${rect.height - headerHeight}px` }}>
+        <div ref={playerHostRef} className="w-full h-full" title={currentStream ? `ISS ${currentStream.label}` : undefined} />
+
+        {/* Keep the iframe from swallowing pointer events mid-drag */}
+        {isInteracting && <div className="absolute inset-0" />}
+
+        {/* Every stream in the manifest is down */}
+        {allFailed && (
+          <div className="absolute inset-0 bg-black flex flex-col items-center justify-center gap-2 text-yellow-400">
+            <span className="text-xs">No ISS livestream is available right now</span>
+            <button
+              onClick={handleRetry}
+              className="text-[10px] px-2 py-0.5 rounded bg-yellow-400/20 hover:bg-yellow-400/30 transition-colors"
+            >
+              Retry
+            </button>
+          </div>
+        )}
 
         {/* Loading indicator overlay */}
-        {!isVideoLoaded && (
+        {!isVideoLoaded && !allFailed && (
           <div className="absolute inset-0 bg-black flex items-center justify-center text-yellow-400">
             <div className="flex flex-col items-center gap-2">
               <div className="animate-spin rounded-full h-6 w-6 border-2 border-yellow-400 border-t-transparent"></div>
@@ -183,8 +526,18 @@ const ISSVideoOverlay: React.FC = () => {
             </div>
           </div>
         )}
+
+        {/* Resize grip */}
+        <div
+          className="absolute right-0 bottom-0 w-3 h-3 cursor-nwse-resize touch-none"
+          style={{ background: 'linear-gradient(135deg, transparent 50%, rgb(250 204 21 / 0.5) 50%)' }}
+          onPointerDown={startInteraction('resize')}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        />
       </div>
     </div>
+    </>
   );
 };
 
@@ -1,15 +1,26 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { CONFIG } from '../config';
-import { useMapStore } from '../store/mapStore';
+import { useMapStore, getSimulatedTime } from '../store/mapStore';
 import { useMapInstance } from '../hooks/useMapInstance';
 import { useDataManagers } from '../hooks/useDataManagers';
 import { useMapLayers } from '../hooks/useMapLayers';
 import { useAnimationLoop } from '../hooks/useAnimationLoop';
+import { useISSFollow } from '../hooks/useISSFollow';
+import { useEarthquakeDepthView } from '../hooks/useEarthquakeDepthView';
+import type { EarthquakeViewBounds } from '../layers/EarthquakeLayer';
 import { MapControlPanel } from './MapControlPanel';
 import ISSVideoOverlay from './ISSVideoOverlay';
+import { DaylightLegend } from './DaylightLegend';
+import { EarthquakeDepthLegend } from './EarthquakeDepthLegend';
+import { EarthquakeDetailDrawer } from './EarthquakeDetailDrawer';
+import type { ShakeMapContour } from '../services/earthquakeDetailService';
+
+// Stable empty list so the earthquake layers aren't rebuilt on every render
+const NO_CONTOURS: ShakeMapContour[] = [];
 
 const Map: React.FC = () => {
   const [currentZoom, setCurrentZoom] = useState(2);
+  const [viewBounds, setViewBounds] = useState<EarthquakeViewBounds | null>(null);
   const [displayTime, setDisplayTime] = useState(new Date());
 
   // Get all state and actions from store
@@ -19,17 +30,35 @@ const Map: React.FC = () => {
     selectedBasemap,
     showArcgisPlaces,
     showTerminator,
+    showTwilightLines,
+    showMoon,
+    showMoonlitHemisphere,
+    showSunReadout,
+    showDaylight,
+    showCalendarDates,
+    selectedEclipse,
     showNight,
     showCities,
     showMountains,
     showUnesco,
     showTimezones,
+    showPlateBoundaries,
     showISS,
+    showISSFootprint,
+    followISS,
+    issTrackSettings,
+    highlightedPass,
     showHurricanes,
     showEarthquakes,
     issLayers,
     issManager,
     isISSLoading,
+    showSatellites,
+    trackedSatellites,
+    satelliteLayers,
+    satelliteManager,
+    satelliteLastUpdate,
+    isSatellitesLoading,
     hurricaneLayers,
     hurricaneManager,
     hurricaneLastUpdate,
@@ -38,10 +67,16 @@ const Map: React.FC = () => {
     earthquakeManager,
     earthquakeLastUpdate,
     isEarthquakesLoading,
+    earthquakeFeedSettings,
+    showEarthquakeDepth3D,
     nightStyle,
     timezoneLayers,
+    plateBoundaryLayers,
+    calendarZones,
     isMenuOpen,
     currentTime,
+    isLive,
+    isPlaying,
     cities,
     showTrueColorEarth,
     trueColorEarthLayers,
@@ -62,22 +97,41 @@ const Map: React.FC = () => {
     setSelectedBasemap,
     toggleArcgisPlaces,
     toggleTerminator,
+    toggleTwilightLine,
+    toggleMoon,
+    toggleMoonlitHemisphere,
+    toggleSunReadout,
+    toggleDaylight,
+    toggleCalendarDates,
     toggleCities,
     toggleMountains,
     toggleUnesco,
     toggleTimezones,
+    togglePlateBoundaries,
     toggleISS,
+    toggleISSFootprint,
+    toggleFollowISS,
+    setISSTrackSettings,
+    toggleSatellites,
     toggleHurricanes,
     toggleEarthquakes,
     toggleMenu,
     updateTime,
     setISSLayers,
+    setSatelliteLayers,
     setHurricaneLayers,
     setHurricaneLastUpdate,
     setEarthquakeLayers,
     setEarthquakeLastUpdate,
+    setEarthquakeFeedSettings,
+    toggleEarthquakeDepth3D,
+    earthquakeAlertNotifications,
+    toggleEarthquakeAlertNotifications,
+    loadSavedEarthquakeAlertNotifications,
     setNightStyle,
     setTimezoneLayers,
+    setPlateBoundaryLayers,
+    setCalendarZones,
     toggleTrueColorEarth,
     setTrueColorEarthLayers,
     initializeTrueColorEarthManager,
@@ -94,12 +148,18 @@ const Map: React.FC = () => {
     destroyAuroraManager,
     initializeISSManager,
     destroyISSManager,
+    initializeSatelliteManager,
+    destroySatelliteManager,
     initializeHurricaneManager,
     destroyHurricaneManager,
     initializeEarthquakeManager,
     destroyEarthquakeManager,
     loadSavedCities,
+    loadSavedSatellites,
+    loadSavedEarthquakeFeedSettings,
     setISSVideoVisible,
+    earthquakeDetail,
+    selectEarthquake,
   } = useMapStore();
 
   // ISS click handler for video overlay
@@ -109,6 +169,14 @@ const Map: React.FC = () => {
     }
   }, [setISSVideoVisible]);
 
+  // Earthquake click handler for the detail drawer
+  const handleEarthquakeClick = useCallback((info: any) => {
+    if (info.object) {
+      const { id, properties } = info.object;
+      selectEarthquake({ id, detailUrl: properties.detail, title: properties.title });
+    }
+  }, [selectEarthquake]);
+
   // Initialize map using custom hook
   const mapContainer = useMapInstance(setMap, setMapLoaded);
 
@@ -116,13 +184,26 @@ const Map: React.FC = () => {
   useDataManagers(
     {
       showISS,
+      showISSFootprint,
+      highlightedPass,
+      issTrackSettings,
+      showSatellites,
       showHurricanes,
       showEarthquakes,
+      isEarthquakesLoading,
+      earthquakeMinMagnitude: earthquakeFeedSettings.minMagnitude,
+      showEarthquakeDepth3D,
+      shakeMapContours: earthquakeDetail?.shakemapContours ?? NO_CONTOURS,
       showTimezones,
+      showPlateBoundaries,
+      showCalendarDates,
       showTrueColorEarth,
       showRainRadar,
       showAurora,
       issManager,
+      satelliteManager,
+      trackedSatellites,
+      satelliteLastUpdate,
       hurricaneManager,
       earthquakeManager,
       trueColorEarthManager,
@@ -132,6 +213,8 @@ const Map: React.FC = () => {
     {
       initializeISSManager,
       destroyISSManager,
+      initializeSatelliteManager,
+      destroySatelliteManager,
       initializeHurricaneManager,
       destroyHurricaneManager,
       initializeEarthquakeManager,
@@ -143,9 +226,12 @@ const Map: React.FC = () => {
       initializeAuroraManager,
       destroyAuroraManager,
       setISSLayers,
+      setSatelliteLayers,
       setHurricaneLayers,
       setEarthquakeLayers,
       setTimezoneLayers,
+      setPlateBoundaryLayers,
+      setCalendarZones,
       setTrueColorEarthLayers,
       setRainRadarLayers,
       setAuroraLayers,
@@ -156,19 +242,29 @@ const Map: React.FC = () => {
     },
     currentTime,
     currentZoom,
-    handleISSClick
+    viewBounds,
+    handleISSClick,
+    handleEarthquakeClick
   );
 
   // Generate layers using custom hook
   const layers = useMapLayers(
     {
       showTerminator,
+      showTwilightLines,
+      showMoon,
+      showMoonlitHemisphere,
+      showDaylight,
+      showCalendarDates,
+      selectedEclipse,
       showNight,
       showCities,
       showMountains,
       showUnesco,
       showTimezones,
+      showPlateBoundaries,
       showISS,
+      showSatellites,
       showHurricanes,
       showEarthquakes,
       showTrueColorEarth,
@@ -178,9 +274,12 @@ const Map: React.FC = () => {
     },
     {
       issLayers,
+      satelliteLayers,
       hurricaneLayers,
       earthquakeLayers,
       timezoneLayers,
+      plateBoundaryLayers,
+      calendarZones,
       trueColorEarthLayers,
       rainRadarLayers,
       auroraLayers,
@@ -197,10 +296,19 @@ const Map: React.FC = () => {
   // Animation loop for pulsing earthquake markers (runs at 60fps via rAF)
   useAnimationLoop();
 
-  // Load saved cities on mount
+  // Keep the camera on the ISS while follow mode is on
+  useISSFollow();
+
+  // Tilt the camera for the 3D earthquake depth view
+  useEarthquakeDepthView();
+
+  // Load saved cities, tracked satellites and earthquake settings on mount
   useEffect(() => {
     loadSavedCities();
-  }, [loadSavedCities]);
+    loadSavedSatellites();
+    loadSavedEarthquakeFeedSettings();
+    loadSavedEarthquakeAlertNotifications();
+  }, [loadSavedCities, loadSavedSatellites, loadSavedEarthquakeFeedSettings, loadSavedEarthquakeAlertNotifications]);
 
   // Update deck.gl overlay with new layers
   useEffect(() => {
@@ -218,7 +326,7 @@ const Map: React.FC = () => {
         if (l.id?.startsWith('rain-radar-tiles-')) {
           rrOpacityMap[l.id] = l.props?.opacity ?? 0;
         }
-        const eqMatch = l.id?.match(/^earthquake-pulse-ring-(\d)$/);
+        const eqMatch = l.id?.match(/^earthquake-(pulse|alert)-ring-(\d)$/);
         if (eqMatch) {
           eqAnimState[l.id] = {
             radiusScale: l.props?.radiusScale ?? 1,
@@ -245,34 +353,44 @@ const Map: React.FC = () => {
     }
   }, [layers, map]);
 
-  // Time updates
+  // Time updates — faster ticks while away from live so playback stays smooth,
+  // no ticks at all while paused
   useEffect(() => {
+    if (!isPlaying) return;
+
+    const tickMs = isLive ? CONFIG.app.updateFrequency : CONFIG.timeline.playbackTickMs;
     const interval = setInterval(() => {
       updateTime();
-    }, CONFIG.app.updateFrequency);
+    }, tickMs);
 
     return () => clearInterval(interval);
-  }, [updateTime]);
+  }, [updateTime, isLive, isPlaying]);
 
-  // Display time updates (1-second precision)
+  // Display time updates (1-second precision, follows the simulated clock)
   useEffect(() => {
+    setDisplayTime(getSimulatedTime(useMapStore.getState()));
+    if (!isPlaying) return;
+
     const displayInterval = setInterval(() => {
-      setDisplayTime(new Date());
-    }, 1000);
+      setDisplayTime(getSimulatedTime(useMapStore.getState()));
+    }, isLive ? 1000 : CONFIG.timeline.playbackTickMs);
 
     return () => clearInterval(displayInterval);
-  }, []);
+  }, [currentTime, isLive, isPlaying]);
 
-  // Zoom tracking
+  // Zoom and viewport tracking
   useEffect(() => {
     if (!map) return;
 
-    const handleZoomEnd = () => {
+    const handleMoveEnd = () => {
+      const bounds = map.getBounds();
       setCurrentZoom(map.getZoom());
+      setViewBounds([bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()]);
     };
 
-    map.on('zoomend', handleZoomEnd);
-    return () => map.off('zoomend', handleZoomEnd);
+    handleMoveEnd();
+    map.on('moveend', handleMoveEnd);
+    return () => map.off('moveend', handleMoveEnd);
   }, [map]);
 
   return (
@@ -295,17 +413,32 @@ const Map: React.FC = () => {
         selectedBasemap={selectedBasemap}
         showArcgisPlaces={showArcgisPlaces}
         showTimezones={showTimezones}
+        showPlateBoundaries={showPlateBoundaries}
         showMountains={showMountains}
         showUnesco={showUnesco}
         showCities={showCities}
         showTerminator={showTerminator}
+        showTwilightLines={showTwilightLines}
+        showMoon={showMoon}
+        showMoonlitHemisphere={showMoonlitHemisphere}
+        showSunReadout={showSunReadout}
+        showDaylight={showDaylight}
+        showCalendarDates={showCalendarDates}
         showISS={showISS}
+        showISSFootprint={showISSFootprint}
+        followISS={followISS}
+        issTrackSettings={issTrackSettings}
         showEarthquakes={showEarthquakes}
         showHurricanes={showHurricanes}
         isISSLoading={isISSLoading}
+        showSatellites={showSatellites}
+        isSatellitesLoading={isSatellitesLoading}
         isEarthquakesLoading={isEarthquakesLoading}
         isHurricanesLoading={isHurricanesLoading}
         earthquakeLastUpdate={earthquakeLastUpdate}
+        earthquakeFeedSettings={earthquakeFeedSettings}
+        showEarthquakeDepth3D={showEarthquakeDepth3D}
+        earthquakeAlertNotifications={earthquakeAlertNotifications}
         hurricaneLastUpdate={hurricaneLastUpdate}
         hurricaneLayerCount={hurricaneLayers.length}
         showTrueColorEarth={showTrueColorEarth}
@@ -321,12 +454,26 @@ const Map: React.FC = () => {
         onSetSelectedBasemap={setSelectedBasemap}
         onToggleArcgisPlaces={toggleArcgisPlaces}
         onToggleTimezones={toggleTimezones}
+        onTogglePlateBoundaries={togglePlateBoundaries}
         onToggleMountains={toggleMountains}
         onToggleUnesco={toggleUnesco}
         onToggleCities={toggleCities}
         onToggleTerminator={toggleTerminator}
+        onToggleTwilightLine={toggleTwilightLine}
+        onToggleMoon={toggleMoon}
+        onToggleMoonlitHemisphere={toggleMoonlitHemisphere}
+        onToggleSunReadout={toggleSunReadout}
+        onToggleDaylight={toggleDaylight}
+        onToggleCalendarDates={toggleCalendarDates}
         onToggleISS={toggleISS}
+        onToggleISSFootprint={toggleISSFootprint}
+        onToggleFollowISS={toggleFollowISS}
+        onSetISSTrackSettings={setISSTrackSettings}
+        onToggleSatellites={toggleSatellites}
         onToggleEarthquakes={toggleEarthquakes}
+        onSetEarthquakeFeedSettings={setEarthquakeFeedSettings}
+        onToggleEarthquakeDepth3D={toggleEarthquakeDepth3D}
+        onToggleEarthquakeAlertNotifications={toggleEarthquakeAlertNotifications}
         onToggleHurricanes={toggleHurricanes}
         onToggleTrueColorEarth={toggleTrueColorEarth}
         onToggleRainRadar={toggleRainRadar}
@@ -337,6 +484,11 @@ const Map: React.FC = () => {
 
       {/* Date/Time Display */}
       <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 z-30">
+        {!isLive && (
+          <div className="text-amber-300/80 text-[11px] font-semibold tracking-widest uppercase antialiased text-center">
+            Simulated time
+          </div>
+        )}
         <div className="text-blue-100/60 text-sm font-medium tracking-wide antialiased text-center">
           {displayTime.toLocaleDateString('en-US', {
             year: 'numeric',
@@ -354,6 +506,17 @@ const Map: React.FC = () => {
         </div>
       </div>
 
+      {/* Legends — daylight hours, earthquake depth */}
+      {(showDaylight || showEarthquakes) && (
+        <div className="absolute bottom-6 left-6 z-30 flex flex-col gap-3">
+          {showDaylight && <DaylightLegend />}
+          {showEarthquakes && <EarthquakeDepthLegend />}
+        </div>
+      )}
+
+      {/* Earthquake detail drawer */}
+      <EarthquakeDetailDrawer />
+
       {/* ISS Video Overlay */}
       <ISSVideoOverlay />
     </div>
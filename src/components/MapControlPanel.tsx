@@ -9,30 +9,53 @@
 import React from 'react';
 import {
   Globe, SunMoon, Radio, MapPin, Clock4, Mountain, Star,
-  Building2, Activity, Wind, RefreshCw, CloudRain, Satellite, Sparkles,
+  Building2, Activity, Wind, RefreshCw, CloudRain, Satellite, Sparkles, Moon, Sun, Hourglass, CalendarDays, Waypoints,
 } from 'lucide-react';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { CityManager } from './CityManager';
-import { type NightStyleKey } from '../layers/NightLayer';
+import { SatelliteTracker } from './SatelliteTracker';
+import { ISSPasses } from './ISSPasses';
+import { EarthquakeAlertBanner } from './EarthquakeAlertBanner';
+import { TimelineControl } from './TimelineControl';
+import { EclipseSelector } from './EclipseSelector';
+import { type NightStyleKey, type TwilightZone, NIGHT_STYLES, TWILIGHT_ZONES } from '../layers/NightLayer';
+import type { ISSTrackSettings } from '../layers/ISSLayer';
+import { EARTHQUAKE_FEED_RANGES, type EarthquakeFeedSettings } from '../services/earthquakeFeedService';
+import { CONFIG } from '../config';
 
 interface MapControlPanelProps {
   isMenuOpen: boolean;
   selectedBasemap: 'usgs' | 'arcgis' | 'eox';
   showArcgisPlaces: boolean;
   showTimezones: boolean;
+  showPlateBoundaries: boolean;
   showMountains: boolean;
   showUnesco: boolean;
   showCities: boolean;
   showTerminator: boolean;
+  showTwilightLines: Record<TwilightZone, boolean>;
+  showMoon: boolean;
+  showMoonlitHemisphere: boolean;
+  showSunReadout: boolean;
+  showDaylight: boolean;
+  showCalendarDates: boolean;
   showISS: boolean;
+  showISSFootprint: boolean;
+  followISS: boolean;
+  issTrackSettings: ISSTrackSettings;
   showEarthquakes: boolean;
   showHurricanes: boolean;
   isISSLoading: boolean;
+  showSatellites: boolean;
+  isSatellitesLoading: boolean;
   isEarthquakesLoading: boolean;
   isHurricanesLoading: boolean;
   earthquakeLastUpdate: Date | null;
+  earthquakeFeedSettings: EarthquakeFeedSettings;
+  showEarthquakeDepth3D: boolean;
+  earthquakeAlertNotifications: boolean;
   hurricaneLastUpdate: Date | null;
   hurricaneLayerCount: number;
   showTrueColorEarth: boolean;
@@ -48,12 +71,26 @@ interface MapControlPanelProps {
   onSetSelectedBasemap: (basemap: 'usgs' | 'arcgis' | 'eox') => void;
   onToggleArcgisPlaces: () => void;
   onToggleTimezones: () => void;
+  onTogglePlateBoundaries: () => void;
   onToggleMountains: () => void;
   onToggleUnesco: () => void;
   onToggleCities: () => void;
   onToggleTerminator: () => void;
+  onToggleTwilightLine: (zone: TwilightZone) => void;
+  onToggleMoon: () => void;
+  onToggleMoonlitHemisphere: () => void;
+  onToggleSunReadout: () => void;
+  onToggleDaylight: () => void;
+  onToggleCalendarDates: () => void;
   onToggleISS: () => void;
+  onToggleISSFootprint: () => void;
+  onToggleFollowISS: () => void;
+  onSetISSTrackSettings: (changes: Partial<ISSTrackSettings>) => void;
+  onToggleSatellites: () => void;
   onToggleEarthquakes: () => void;
+  onSetEarthquakeFeedSettings: (changes: Partial<EarthquakeFeedSettings>) => void;
+  onToggleEarthquakeDepth3D: () => void;
+  onToggleEarthquakeAlertNotifications: () => void;
   onToggleHurricanes: () => void;
   onToggleTrueColorEarth: () => void;
   onToggleRainRadar: () => void;
@@ -100,6 +137,28 @@ const LayerRow: React.FC<{
   </div>
 );
 
+const OrbitStepper: React.FC<{ value: number; disabled: boolean; onChange: (value: number) => void }> = ({
+  value, disabled, onChange
+}) => (
+  <div className="flex items-center gap-1">
+    <button
+      onClick={() => onChange(value - 1)}
+      disabled={disabled || value <= 0}
+      className="w-6 h-6 rounded bg-slate-800/50 text-blue-100 text-[13px] hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+    >
+      −
+    </button>
+    <span className="w-5 text-center text-[13px] font-mono text-blue-100">{value}</span>
+    <button
+      onClick={() => onChange(value + 1)}
+      disabled={disabled || value >= CONFIG.styles.iss.trajectoryMaxOrbits}
+      className="w-6 h-6 rounded bg-slate-800/50 text-blue-100 text-[13px] hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+    >
+      +
+    </button>
+  </div>
+);
+
 const UpdateMeta: React.FC<{ freq: string; lastUpdate?: Date | null; source?: string }> = ({
   freq, lastUpdate, source
 }) => (
@@ -130,17 +189,32 @@ export const MapControlPanel: React.FC<MapControlPanelProps> = ({
   selectedBasemap,
   showArcgisPlaces,
   showTimezones,
+  showPlateBoundaries,
   showMountains,
   showUnesco,
   showCities,
   showTerminator,
+  showTwilightLines,
+  showMoon,
+  showMoonlitHemisphere,
+  showSunReadout,
+  showDaylight,
+  showCalendarDates,
   showISS,
+  showISSFootprint,
+  followISS,
+  issTrackSettings,
   showEarthquakes,
   showHurricanes,
   isISSLoading,
+  showSatellites,
+  isSatellitesLoading,
   isEarthquakesLoading,
   isHurricanesLoading,
   earthquakeLastUpdate,
+  earthquakeFeedSettings,
+  showEarthquakeDepth3D,
+  earthquakeAlertNotifications,
   hurricaneLastUpdate,
   hurricaneLayerCount,
   showTrueColorEarth,
@@ -156,12 +230,26 @@ export const MapControlPanel: React.FC<MapControlPanelProps> = ({
   onSetSelectedBasemap,
   onToggleArcgisPlaces,
   onToggleTimezones,
+  onTogglePlateBoundaries,
   onToggleMountains,
   onToggleUnesco,
   onToggleCities,
   onToggleTerminator,
+  onToggleTwilightLine,
+  onToggleMoon,
+  onToggleMoonlitHemisphere,
+  onToggleSunReadout,
+  onToggleDaylight,
+  onToggleCalendarDates,
   onToggleISS,
+  onToggleISSFootprint,
+  onToggleFollowISS,
+  onSetISSTrackSettings,
+  onToggleSatellites,
   onToggleEarthquakes,
+  onSetEarthquakeFeedSettings,
+  onToggleEarthquakeDepth3D,
+  onToggleEarthquakeAlertNotifications,
   onToggleHurricanes,
   onToggleTrueColorEarth,
   onToggleRainRadar,
@@ -203,6 +291,9 @@ export const MapControlPanel: React.FC<MapControlPanelProps> = ({
           <h2 className="text-lg font-semibold text-blue-100">Map Controls</h2>
         </div>
 
+        {/* Earthquake alerts stay in view whichever tab is open */}
+        <EarthquakeAlertBanner />
+
         {/* Tabbed Content */}
         <Tabs defaultValue="map" className="flex flex-col flex-1 min-h-0">
           <TabsList>
@@ -256,6 +347,7 @@ export const MapControlPanel: React.FC<MapControlPanelProps> = ({
                   <SectionLabel>Overlays</SectionLabel>
                   <LayerRow icon={<MapPin className="w-[18px] h-[18px] text-violet-400" />} name="Places & Boundaries" enabled={showArcgisPlaces} onToggle={onToggleArcgisPlaces} />
                   <LayerRow icon={<Clock4 className="w-[18px] h-[18px] text-cyan-400" />} name="Time Zones" enabled={showTimezones} onToggle={onToggleTimezones} />
+                  <LayerRow icon={<Waypoints className="w-[18px] h-[18px] text-rose-400" />} name="Plate Boundaries" enabled={showPlateBoundaries} onToggle={onTogglePlateBoundaries} />
                   <LayerRow icon={<Mountain className="w-[18px] h-[18px] text-yellow-500" />} name="Mountain Peaks" enabled={showMountains} onToggle={onToggleMountains} />
                   <LayerRow icon={<MapPin className="w-[18px] h-[18px] text-orange-400" />} name="UNESCO Sites" enabled={showUnesco} onToggle={onToggleUnesco} />
                 </div>
@@ -267,6 +359,9 @@ export const MapControlPanel: React.FC<MapControlPanelProps> = ({
           <TabsContent value="daynight" className="flex-1">
             <ScrollArea className="h-full">
               <div className="p-8 space-y-6">
+                {/* Time Travel */}
+                <TimelineControl />
+
                 {/* Terminator */}
                 <div className="bg-slate-800/30 rounded-xl p-5 space-y-2">
                   <div className="flex items-center justify-between">
@@ -285,16 +380,132 @@ export const MapControlPanel: React.FC<MapControlPanelProps> = ({
                   </div>
                 </div>
 
-                {/* Earth at Night */}
+                {/* Sun at Cursor */}
+                <div className="bg-slate-800/30 rounded-xl p-5 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <Sun className="w-5 h-5 text-indigo-400" />
+                      <span className="text-[15px] font-medium text-blue-100">Sun at Cursor</span>
+                    </div>
+                    <Switch checked={showSunReadout} onCheckedChange={onToggleSunReadout} />
+                  </div>
+                  <p className="text-[13px] text-slate-500 pl-8">Elevation, azimuth, solar time and twilight on hover</p>
+                </div>
+
+                {/* Daylight Hours */}
+                <div className="bg-slate-800/30 rounded-xl p-5 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <Hourglass className="w-5 h-5 text-indigo-400" />
+                      <span className="text-[15px] font-medium text-blue-100">Daylight Hours</span>
+                    </div>
+                    <Switch checked={showDaylight} onCheckedChange={onToggleDaylight} />
+                  </div>
+                  <p className="text-[13px] text-slate-500 pl-8">Day length by latitude, midnight sun and polar night</p>
+                  <div className="flex items-center gap-2 pl-8">
+                    <RefreshCw className="w-3 h-3 text-teal-300/30" />
+                    <span className="text-[11px] text-teal-300/30">Every 10s</span>
+                    <span className="text-[11px] text-slate-600/50">·</span>
+                    <span className="text-[11px] text-slate-600/50">Computed</span>
+                  </div>
+                </div>
+
+                {/* Calendar Dates */}
+                <div className="bg-slate-800/30 rounded-xl p-5 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <CalendarDays className="w-5 h-5 text-indigo-400" />
+                      <span className="text-[15px] font-medium text-blue-100">Calendar Dates</span>
+                    </div>
+                    <Switch checked={showCalendarDates} onCheckedChange={onToggleCalendarDates} />
+                  </div>
+                  <p className="text-[13px] text-slate-500 pl-8">Local date by time zone and the midnight meridian</p>
+                  <div className="flex items-center gap-2 pl-8">
+                    <RefreshCw className="w-3 h-3 text-teal-300/30" />
+                    <span className="text-[11px] text-teal-300/30">Every 10s</span>
+                    <span className="text-[11px] text-slate-600/50">·</span>
+                    <span className="text-[11px] text-slate-600/50">Computed</span>
+                  </div>
+                </div>
+
+                {/* Twilight Boundaries */}
+                <div className="bg-slate-800/30 rounded-xl p-5 space-y-2">
+                  <div className="flex items-center gap-3">
+                    <SunMoon className="w-5 h-5 text-indigo-400" />
+                    <span className="text-[15px] font-medium text-blue-100">Twilight Boundaries</span>
+                  </div>
+                  <p className="text-[13px] text-slate-500 pl-8">Where each twilight zone ends</p>
+                  <div className="space-y-1 pl-8">
+                    {TWILIGHT_ZONES.map(zone => {
+                      const { label, zenith, color } = CONFIG.styles.night.twilight[zone];
+                      return (
+                        <div key={zone} className="flex items-center justify-between py-1.5">
+                          <div className="flex items-center gap-2.5">
+                            <span
+                              className="w-3 h-0.5 rounded-full"
+                              style={{ backgroundColor: `rgb(${color[0]}, ${color[1]}, ${color[2]})` }}
+                            />
+                            <span className="text-[13px] text-blue-100">{label}</span>
+                            <span className="text-[11px] text-slate-600/80">−{zenith - 90}°</span>
+                          </div>
+                          <Switch checked={showTwilightLines[zone]} onCheckedChange={() => onToggleTwilightLine(zone)} />
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {/* Moon */}
                 <div className="bg-slate-800/30 rounded-xl p-5 space-y-2">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
-                      <Globe className="w-5 h-5 text-indigo-400" />
-                      <span className="text-[15px] font-medium text-blue-100">Earth at Night</span>
+                      <Moon className="w-5 h-5 text-indigo-400" />
+                      <span className="text-[15px] font-medium text-blue-100">Moon</span>
                     </div>
-                    <Switch checked={nightStyle === 'masked'} onCheckedChange={() => onSetNightStyle(nightStyle === 'masked' ? 'off' : 'masked')} />
+                    <Switch checked={showMoon} onCheckedChange={onToggleMoon} />
+                  </div>
+                  <p className="text-[13px] text-slate-500 pl-8">Sublunar point, phase and illumination</p>
+                  <div className="flex items-center justify-between pl-8 py-1.5">
+                    <span className="text-[13px] text-blue-100">Moonlit hemisphere</span>
+                    <Switch checked={showMoonlitHemisphere} onCheckedChange={onToggleMoonlitHemisphere} disabled={!showMoon} />
+                  </div>
+                  <div className="flex items-center gap-2 pl-8">
+                    <RefreshCw className="w-3 h-3 text-teal-300/30" />
+                    <span className="text-[11px] text-teal-300/30">Follows the timeline</span>
+                    <span className="text-[11px] text-slate-600/50">·</span>
+                    <span className="text-[11px] text-slate-600/50">Computed</span>
+                  </div>
+                </div>
+
+                {/* Eclipses */}
+                <EclipseSelector />
+
+                {/* Night Style */}
+                <div className="bg-slate-800/30 rounded-xl p-5 space-y-2">
+                  <div className="flex items-center gap-3">
+                    <Globe className="w-5 h-5 text-indigo-400" />
+                    <span className="text-[15px] font-medium text-blue-100">Night Style</span>
+                  </div>
+                  <p className="text-[13px] text-slate-500 pl-8">Shadow, twilight and NASA city lights</p>
+                  <div className="space-y-1.5 pl-8">
+                    {NIGHT_STYLES.map(({ key, label, description }) => {
+                      const selected = nightStyle === key;
+                      return (
+                        <div
+                          key={key}
+                          onClick={() => onSetNightStyle(key)}
+                          className={`px-3 py-2 rounded-lg cursor-pointer transition-all ${
+                            selected
+                              ? 'bg-blue-600/20 border border-blue-400/50'
+                              : 'bg-slate-800/30 hover:bg-slate-800/60 border border-transparent'
+                          }`}
+                        >
+                          <div className={`text-[13px] ${selected ? 'text-blue-100' : 'text-slate-400'}`}>{label}</div>
+                          <div className="text-[11px] text-slate-500">{description}</div>
+                        </div>
+                      );
+                    })}
                   </div>
-                  <p className="text-[13px] text-slate-500 pl-8">NASA city lights on night side</p>
                   <div className="flex items-center gap-2 pl-8">
                     <RefreshCw className="w-3 h-3 text-teal-300/30" />
                     <span className="text-[11px] text-teal-300/30">Every 10s</span>
@@ -314,9 +525,126 @@ export const MapControlPanel: React.FC<MapControlPanelProps> = ({
                 <UpdateMeta freq="Every 10s" source="Computed" />
 
                 <LayerRow icon={<Radio className="w-[18px] h-[18px] text-yellow-400" />} name="ISS Tracking" enabled={showISS} loading={isISSLoading} onToggle={onToggleISS} meta="10s" />
+                <div className="flex items-center justify-between pl-12 pr-4 py-1.5">
+                  <span className="text-[13px] text-blue-100">Visibility footprint</span>
+                  <Switch checked={showISSFootprint} onCheckedChange={onToggleISSFootprint} disabled={!showISS} />
+                </div>
+                <div className="flex items-center justify-between pl-12 pr-4 py-1.5">
+                  <span className="text-[13px] text-blue-100">
+                    Follow camera <span className="text-[11px] text-slate-500">F · pan to exit</span>
+                  </span>
+                  <Switch checked={followISS} onCheckedChange={onToggleFollowISS} disabled={!showISS} />
+                </div>
+                <div className="flex items-center justify-between pl-12 pr-4 py-1.5">
+                  <span className="text-[13px] text-blue-100">Past orbits</span>
+                  <OrbitStepper
+                    value={issTrackSettings.pastOrbits}
+                    disabled={!showISS}
+                    onChange={pastOrbits => onSetISSTrackSettings({ pastOrbits })}
+                  />
+                </div>
+                <div className="flex items-center justify-between pl-12 pr-4 py-1.5">
+                  <span className="text-[13px] text-blue-100">Future orbits</span>
+                  <OrbitStepper
+                    value={issTrackSettings.futureOrbits}
+                    disabled={!showISS}
+                    onChange={futureOrbits => onSetISSTrackSettings({ futureOrbits })}
+                  />
+                </div>
+                <div className="flex items-center justify-between pl-12 pr-4 py-1.5">
+                  <span className="text-[13px] text-blue-100">
+                    Time ticks <span className="text-[11px] text-slate-500">every {CONFIG.styles.iss.trajectoryTicks.intervalMinutes} min</span>
+                  </span>
+                  <div className="flex items-center gap-3">
+                    <div className="flex rounded-md overflow-hidden border border-blue-200/20">
+                      {(['utc', 'local'] as const).map(timeZone => (
+                        <button
+                          key={timeZone}
+                          onClick={() => onSetISSTrackSettings({ tickTimeZone: timeZone })}
+                          disabled={!showISS || !issTrackSettings.showTicks}
+                          className={`px-2 py-0.5 text-[11px] transition-colors disabled:opacity-40 ${
+                            issTrackSettings.tickTimeZone === timeZone
+                              ? 'bg-blue-600/40 text-blue-100'
+                              : 'bg-slate-800/30 text-slate-400 hover:bg-slate-800/60'
+                          }`}
+                        >
+                          {timeZone === 'utc' ? 'UTC' : 'Local'}
+                        </button>
+                      ))}
+                    </div>
+                    <Switch
+                      checked={issTrackSettings.showTicks}
+                      onCheckedChange={() => onSetISSTrackSettings({ showTicks: !issTrackSettings.showTicks })}
+                      disabled={!showISS}
+                    />
+                  </div>
+                </div>
                 <UpdateMeta freq="Every 10s" />
 
+                <LayerRow icon={<Satellite className="w-[18px] h-[18px] text-sky-400" />} name="Satellites" enabled={showSatellites} loading={isSatellitesLoading} onToggle={onToggleSatellites} meta="10s" />
+                <UpdateMeta freq="Every 10s" source="CelesTrak TLE" />
+
                 <LayerRow icon={<Activity className="w-[18px] h-[18px] text-red-500" />} name="Earthquakes" enabled={showEarthquakes} loading={isEarthquakesLoading} onToggle={onToggleEarthquakes} meta="1h" />
+                <div className="flex items-center justify-between pl-12 pr-4 py-1.5">
+                  <span className="text-[13px] text-blue-100">Past</span>
+                  <div className="flex rounded-md overflow-hidden border border-blue-200/20">
+                    {EARTHQUAKE_FEED_RANGES.map(({ key, label }) => (
+                      <button
+                        key={key}
+                        onClick={() => onSetEarthquakeFeedSettings({ range: key })}
+                        disabled={!showEarthquakes}
+                        className={`px-2 py-0.5 text-[11px] transition-colors disabled:opacity-40 ${
+                          earthquakeFeedSettings.range === key
+                            ? 'bg-blue-600/40 text-blue-100'
+                            : 'bg-slate-800/30 text-slate-400 hover:bg-slate-800/60'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center justify-between pl-12 pr-4 py-1.5">
+                  <span className="text-[13px] text-blue-100">
+                    Significant only <span className="text-[11px] text-slate-500">USGS selection</span>
+                  </span>
+                  <Switch
+                    checked={earthquakeFeedSettings.significantOnly}
+                    onCheckedChange={significantOnly => onSetEarthquakeFeedSettings({ significantOnly })}
+                    disabled={!showEarthquakes}
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-4 pl-12 pr-4 py-1.5">
+                  <span className="text-[13px] text-blue-100 shrink-0">
+                    Min magnitude <span className="font-mono text-[12px]">M{earthquakeFeedSettings.minMagnitude.toFixed(1)}</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={CONFIG.styles.earthquakes.magnitudeSlider.min}
+                    max={CONFIG.styles.earthquakes.magnitudeSlider.max}
+                    step={CONFIG.styles.earthquakes.magnitudeSlider.step}
+                    value={earthquakeFeedSettings.minMagnitude}
+                    onChange={e => onSetEarthquakeFeedSettings({ minMagnitude: Number(e.target.value) })}
+                    disabled={!showEarthquakes}
+                    className="w-28 accent-red-500 disabled:opacity-40"
+                  />
+                </div>
+                <div className="flex items-center justify-between pl-12 pr-4 py-1.5">
+                  <span className="text-[13px] text-blue-100">
+                    3D depth view <span className="text-[11px] text-slate-500">tilted, below the surface</span>
+                  </span>
+                  <Switch checked={showEarthquakeDepth3D} onCheckedChange={onToggleEarthquakeDepth3D} />
+                </div>
+                <div className="flex items-center justify-between pl-12 pr-4 py-1.5">
+                  <span className="text-[13px] text-blue-100">
+                    Alert notifications <span className="text-[11px] text-slate-500">PAGER orange/red, tsunami</span>
+                  </span>
+                  <Switch
+                    checked={earthquakeAlertNotifications}
+                    onCheckedChange={onToggleEarthquakeAlertNotifications}
+                    disabled={!showEarthquakes}
+                  />
+                </div>
                 <UpdateMeta freq="Hourly" lastUpdate={earthquakeLastUpdate} source="USGS" />
 
                 <LayerRow icon={<Wind className="w-[18px] h-[18px] text-orange-400" />} name="Hurricanes" enabled={showHurricanes} loading={isHurricanesLoading} onToggle={onToggleHurricanes} meta="1h" />
@@ -339,11 +667,23 @@ export const MapControlPanel: React.FC<MapControlPanelProps> = ({
                 <LayerRow icon={<Sparkles className="w-[18px] h-[18px] text-green-400" />} name="Aurora Forecast" enabled={showAurora} loading={isAuroraLoading} onToggle={onToggleAurora} meta="30m" />
                 <UpdateMeta freq="Every 30m" lastUpdate={auroraLastUpdate} source="NOAA SWPC" />
 
+                {/* Satellite Tracker */}
+                {showSatellites && (
+                  <div className="pt-5">
+                    <SatelliteTracker />
+                  </div>
+                )}
+
                 {/* City Manager */}
                 <div className="pt-5">
                   <CityManager />
                 </div>
 
+                {/* Visible ISS passes over the cities above */}
+                <div className="pt-5">
+                  <ISSPasses />
+                </div>
+
                 {/* System Time */}
                 <div className="border-t border-blue-200/10 pt-4 mt-4">
                   <div className="flex items-center gap-2.5 px-4">
@@ -0,0 +1,191 @@
+/**
+ * Satellite Tracker Component - Add and remove tracked satellites by NORAD ID
+ * Same layout as the City Manager; the TLE is fetched before a satellite is added
+ */
+
+import { useState } from 'react';
+import { useMapStore } from '../store/mapStore';
+import { getSatelliteError, getSatelliteName } from '../layers/SatelliteLayer';
+import { getSatelliteInfo, parseNoradId } from '../services/satelliteCatalogService';
+import { loadTle } from '../services/satelliteOrbitService';
+import { CONFIG } from '../config';
+
+export const SatelliteTracker = () => {
+  const {
+    trackedSatellites,
+    addSatellite,
+    removeSatellite,
+    resetSatellites,
+  } = useMapStore();
+  const { maxTracked, defaultTracked } = CONFIG.satellites;
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [idInput, setIdInput] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAddSatellite = async () => {
+    const noradId = parseNoradId(idInput);
+    if (noradId === null) {
+      setError('Enter a NORAD catalog number (e.g. 25544)');
+      return;
+    }
+
+    if (trackedSatellites.length >= maxTracked) {
+      setError(`Maximum ${maxTracked} satellites allowed`);
+      return;
+    }
+
+    if (noradId === CONFIG.satellites.issNoradId) {
+      setError('The ISS has its own layer under Live Feeds');
+      return;
+    }
+
+    if (trackedSatellites.includes(noradId)) {
+      setError(`${getSatelliteName(noradId)} already tracked`);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // Make sure a TLE exists before the satellite goes on the list
+      await loadTle(noradId);
+      addSatellite(noradId);
+      setIdInput('');
+      setIsAdding(false);
+    } catch (err) {
+      setError(`No orbit found for NORAD ${noradId}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setIdInput('');
+    setError(null);
+    setIsAdding(false);
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleAddSatellite();
+    }
+    if (e.key === 'Escape') {
+      handleCancel();
+    }
+  };
+
+  return (
+    <div className="border-t border-blue-200/10 pt-6">
+      <h3 className="text-sm font-medium text-blue-200 mb-4 uppercase tracking-wide">
+        Satellites ({trackedSatellites.length}/{maxTracked})
+      </h3>
+
+      {/* Tracked Satellites */}
+      <div className="space-y-2 mb-4">
+        {trackedSatellites.map(noradId => {
+          const [r, g, b] = getSatelliteInfo(noradId).color;
+          const loadError = getSatelliteError(noradId);
+          return (
+            <div
+              key={noradId}
+              className="flex items-center justify-between p-2 bg-slate-800/30 rounded-md hover:bg-slate-800/50 transition-colors"
+            >
+              <span className="w-2.5 h-2.5 mr-2.5 rounded-full shrink-0" style={{ backgroundColor: `rgb(${r}, ${g}, ${b})` }} />
+              <div className="flex-1 min-w-0">
+                <div className="text-blue-100 text-sm font-medium truncate">
+                  {getSatelliteName(noradId)}
+                </div>
+                <div className={`text-xs truncate ${loadError ? 'text-red-400' : 'text-blue-300'}`}>
+                  NORAD {noradId}{loadError ? ` · ${loadError}` : ''}
+                </div>
+              </div>
+
+              <button
+                onClick={() => removeSatellite(noradId)}
+                className="ml-2 p-1 text-red-400 hover:text-red-300 hover:bg-red-400/10 rounded transition-colors"
+                title={`Stop tracking ${getSatelliteName(noradId)}`}
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+                </svg>
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Add Satellite Input */}
+      {isAdding ? (
+        <div className="space-y-3">
+          <div className="relative">
+            <input
+              type="text"
+              inputMode="numeric"
+              value={idInput}
+              onChange={(e) => setIdInput(e.target.value)}
+              onKeyDown={handleKeyPress}
+              placeholder="NORAD ID (e.g. 20580 for Hubble)..."
+              className="w-full px-3 py-2 bg-slate-800/50 border border-blue-200/20 rounded-md text-blue-100 placeholder-blue-300/60 focus:outline-none focus:border-blue-400/60 focus:bg-slate-800/70 transition-colors"
+              autoFocus
+              disabled={isLoading}
+            />
+            {isLoading && (
+              <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
+                <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="text-red-400 text-xs bg-red-400/10 px-2 py-1 rounded">
+              {error}
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <button
+              onClick={handleAddSatellite}
+              disabled={!idInput.trim() || isLoading}
+              className="flex-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:bg-blue-600/50 disabled:cursor-not-allowed text-white text-sm rounded transition-colors"
+            >
+              {isLoading ? 'Fetching orbit...' : 'Track Satellite'}
+            </button>
+            <button
+              onClick={handleCancel}
+              disabled={isLoading}
+              className="px-3 py-1.5 bg-slate-600 hover:bg-slate-500 disabled:bg-slate-600/50 text-white text-sm rounded transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setIsAdding(true)}
+            disabled={trackedSatellites.length >= maxTracked}
+            className="flex-1 px-3 py-2 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-700/50 disabled:cursor-not-allowed text-blue-100 text-sm rounded transition-colors border border-blue-200/20"
+          >
+            {trackedSatellites.length >= maxTracked ? `Max Satellites (${maxTracked})` : '+ Add Satellite'}
+          </button>
+
+          <button
+            onClick={resetSatellites}
+            className="px-3 py-2 bg-slate-700 hover:bg-slate-600 text-blue-100 text-sm rounded transition-colors border border-blue-200/20"
+            title={`Reset to ${defaultTracked.map(getSatelliteName).join(', ')}`}
+          >
+            Reset
+          </button>
+        </div>
+      )}
+
+      {/* Usage hint */}
+      <div className="mt-3 text-xs text-blue-300/60">
+        Find NORAD IDs on celestrak.org or n2yo.com
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+/**
+ * Timeline Control — time-travel scrubber for the simulated clock
+ * Scrub to any instant, play forward at 1x/60x/3600x, or jump back to live.
+ */
+
+import React from 'react';
+import { History, Pause, Play } from 'lucide-react';
+import { useMapStore } from '../store/mapStore';
+import { CONFIG } from '../config';
+
+const { playbackSpeeds, scrubRangeHours, scrubStepMinutes } = CONFIG.timeline;
+const SCRUB_RANGE_MINUTES = scrubRangeHours * 60;
+
+// datetime-local inputs work in local time without a zone suffix
+function toDateTimeLocalValue(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function formatOffset(minutes: number): string {
+  if (Math.abs(minutes) < 1) return 'now';
+  const sign = minutes > 0 ? '+' : '−';
+  const abs = Math.abs(Math.round(minutes));
+  const days = Math.floor(abs / 1440);
+  const hours = Math.floor((abs % 1440) / 60);
+  const mins = abs % 60;
+  if (days > 0) return `${sign}${days}d ${hours}h`;
+  if (hours > 0) return `${sign}${hours}h ${mins}m`;
+  return `${sign}${mins}m`;
+}
+
+export const TimelineControl: React.FC = () => {
+  const {
+    currentTime,
+    isLive,
+    isPlaying,
+    playbackSpeed,
+    setSimulatedTime,
+    setPlaybackSpeed,
+    togglePlayback,
+    jumpToLive,
+  } = useMapStore();
+
+  const offsetMinutes = (currentTime.getTime() - Date.now()) / 60000;
+  const sliderValue = Math.max(-SCRUB_RANGE_MINUTES, Math.min(SCRUB_RANGE_MINUTES, offsetMinutes));
+
+  const handleScrub = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const minutes = Number(e.target.value);
+    setSimulatedTime(new Date(Date.now() + minutes * 60000));
+  };
+
+  const handleDateInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const date = new Date(e.target.value);
+    if (!isNaN(date.getTime())) {
+      setSimulatedTime(date);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/30 rounded-xl p-5 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <History className="w-5 h-5 text-indigo-400" />
+          <span className="text-[15px] font-medium text-blue-100">Time Travel</span>
+        </div>
+        <button
+          onClick={jumpToLive}
+          disabled={isLive}
+          className={`text-[11px] font-semibold tracking-widest uppercase px-2.5 py-1 rounded-md transition-colors ${
+            isLive
+              ? 'bg-red-500/20 text-red-300 cursor-default'
+              : 'bg-slate-700 text-blue-100 hover:bg-slate-600 border border-blue-200/20'
+          }`}
+          title="Return to the real current time"
+        >
+          {isLive ? '● Live' : 'Go Live'}
+        </button>
+      </div>
+
+      {/* Scrubber — relative to the real current time */}
+      <div className="space-y-1 pl-8">
+        <input
+          type="range"
+          min={-SCRUB_RANGE_MINUTES}
+          max={SCRUB_RANGE_MINUTES}
+          step={scrubStepMinutes}
+          value={sliderValue}
+          onChange={handleScrub}
+          className="w-full accent-blue-500"
+        />
+        <div className="flex justify-between text-[11px] text-slate-600/80">
+          <span>−{scrubRangeHours}h</span>
+          <span className="text-teal-300/60">{formatOffset(offsetMinutes)}</span>
+          <span>+{scrubRangeHours}h</span>
+        </div>
+      </div>
+
+      {/* Exact instant */}
+      <div className="pl-8">
+        <input
+          type="datetime-local"
+          value={toDateTimeLocalValue(currentTime)}
+          onChange={handleDateInput}
+          className="w-full px-3 py-1.5 bg-slate-800/50 border border-blue-200/20 rounded-md text-[13px] text-blue-100 focus:outline-none focus:border-blue-400/60 [color-scheme:dark]"
+        />
+      </div>
+
+      {/* Playback */}
+      <div className="flex items-center gap-2 pl-8">
+        <button
+          onClick={togglePlayback}
+          className="p-1.5 rounded-md bg-slate-700 hover:bg-slate-600 text-blue-100 border border-blue-200/20 transition-colors"
+          title={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        {playbackSpeeds.map(speed => (
+          <button
+            key={speed}
+            onClick={() => setPlaybackSpeed(speed)}
+            className={`text-[12px] px-2.5 py-1 rounded-md transition-colors ${
+              playbackSpeed === speed
+                ? 'bg-blue-600/20 border border-blue-400/50 text-blue-100'
+                : 'bg-slate-800/30 border border-transparent text-slate-400 hover:bg-slate-800/60'
+            }`}
+          >
+            {speed}x
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -37,10 +37,102 @@ export const CONFIG = {
 
       // Shadow overlay color (dark blue-black)
       shadowColor: [5, 5, 25, 255] as [number, number, number, number],
+      shadowMaxAlpha: 0.55,
+
+      // Style: full Black Marble — lights fade in between these zenith angles
+      marbleFadeZenith: [90, 102] as [number, number],
+
+      // Style: hard-edged polygon
+      polygonColor: [5, 5, 25, 140] as [number, number, number, number],
+
+      // Style: graded bands — total darkness past 90°, 96°, 102° and 108°
+      bandAlphas: [0.15, 0.3, 0.45, 0.55],
 
       // Terminator line
       terminatorColor: [180, 200, 255, 180] as [number, number, number, number],
       terminatorWidth: 1,
+
+      // Twilight boundary lines — where each zone ends (solar zenith angle)
+      twilight: {
+        civil: { zenith: 96, label: 'Civil twilight', color: [255, 190, 120, 200] as [number, number, number, number] },
+        nautical: { zenith: 102, label: 'Nautical twilight', color: [150, 160, 255, 200] as [number, number, number, number] },
+        astronomical: { zenith: 108, label: 'Astronomical twilight', color: [190, 120, 255, 200] as [number, number, number, number] },
+      },
+      twilightWidth: 1,
+    },
+    daylight: {
+      // Latitude bands coloured by hours of daylight
+      bandDegrees: 1,
+      opacity: 0.45,
+      // Colour stops, hours → RGB; also drives the legend gradient
+      colorStops: [
+        [0, [20, 24, 72]],
+        [6, [52, 72, 170]],
+        [12, [64, 170, 160]],
+        [18, [240, 190, 70]],
+        [24, [255, 240, 170]],
+      ] as [number, [number, number, number]][],
+
+      // Polar day / night outlines
+      midnightSunColor: [255, 214, 90, 230] as [number, number, number, number],
+      polarNightColor: [150, 140, 255, 230] as [number, number, number, number],
+      regionFillAlpha: 40,
+      outlineWidth: 2,
+    },
+    calendar: {
+      dataPath: '/geo-website/data/calendar-zones.geojson', // npm run build-calendar-zones
+
+      // Region fill per local weekday, Sunday first
+      weekdayColors: [
+        [239, 68, 68],
+        [249, 115, 22],
+        [234, 179, 8],
+        [34, 197, 94],
+        [6, 182, 212],
+        [59, 130, 246],
+        [168, 85, 247],
+      ] as [number, number, number][],
+      fillAlpha: 55,
+
+      // Midnight meridian
+      meridianColor: [255, 255, 255, 200] as [number, number, number, number],
+      meridianWidth: 1.5,
+      labelLatitudes: [60, 20, -20, -60],
+    },
+    moon: {
+      // Phase icon
+      iconSize: 36,
+      litColor: '#f1f5f9',
+      darkColor: '#1e293b',
+      rimColor: '#94a3b8',
+
+      // Moonlit hemisphere (Moon above the horizon)
+      hemisphereFillColor: [200, 210, 235, 28] as [number, number, number, number],
+      hemisphereLineColor: [200, 210, 235, 120] as [number, number, number, number],
+    },
+    eclipse: {
+      // Selector
+      upcomingCount: 6,
+
+      // Solar — central path (totality / annularity)
+      centerlineStepMinutes: 1,
+      labelIntervalMinutes: 15,
+      totalColor: [255, 95, 70, 110] as [number, number, number, number],
+      annularColor: [255, 170, 40, 110] as [number, number, number, number],
+      pathLineColor: [255, 230, 200, 200] as [number, number, number, number],
+      centerlineColor: [255, 255, 255, 220] as [number, number, number, number],
+
+      // Solar — partial-visibility region, sampled on a lon/lat grid
+      partialColor: [255, 200, 90] as [number, number, number],
+      partialMaxAlpha: 150,
+      gridResolutionDegrees: 2,
+      gridStepMinutes: 4,
+      searchWindowMinutes: 210,
+
+      // Lunar — where the Moon is above the horizon
+      lunarFillColor: [200, 70, 60, 45] as [number, number, number, number],
+      lunarLineColor: [230, 120, 100, 160] as [number, number, number, number],
+      markerColor: [255, 255, 255, 230] as [number, number, number, number],
     },
     arcgisPlaces: {
       opacity: 1,
@@ -82,18 +174,33 @@ export const CONFIG = {
       minZoom: 2, // Show mountains at zoom level 2 and above
     },
     iss: {
-      // Livestream Configuration
-      streams: [
+      // Livestream Configuration — stream IDs are read at runtime from a
+      // manifest refreshed weekly by .github/workflows/update-iss-streams.yml
+      streamManifestPath: '/geo-website/data/iss-streams.json',
+      fallbackStreams: [ // only if the manifest cannot be loaded
         { id: 'awQzjn72bI0', label: 'HD Views' },
         { id: 'uwXgcTc8oY8', label: 'Live Video' },
       ],
+      streamStartTimeoutMs: 20000, // a stream not playing by then is treated as dead
+
+      // Video window — pinned to the station, docked in a corner, or floating
+      videoWindow: {
+        defaultWidth: 320,
+        defaultHeight: 200,
+        minWidth: 240,
+        minHeight: 160,
+        maxWidth: 960,
+        maxHeight: 600,
+        headerHeight: 20,
+        margin: 16, // gap to the screen edge when docked
+        snapDistance: 48, // drop this close to a corner to dock there
+      },
 
-      // API Configuration
-      satelliteId: 25544, // ISS NORAD ID
-      apiBaseUrl: 'https://api.wheretheiss.at/v1/satellites/',
-      trajectoryDurationMinutes: 90, // 90 minutes ahead
-      trajectoryPointIntervalSeconds: 120, // 2 minutes between trajectory points
-      updateIntervalMs: 10000, // 10 seconds between updates
+      // Orbit Configuration — propagated locally with SGP4
+      trajectoryPastOrbits: 1, // Default orbits drawn behind the station
+      trajectoryFutureOrbits: 1, // Default orbits drawn ahead of it
+      trajectoryMaxOrbits: 5, // Upper limit for either setting
+      trajectoryPointIntervalSeconds: 30, // 30 seconds between trajectory points
 
       // Icon Configuration
       icon: {
@@ -106,11 +213,37 @@ export const CONFIG = {
 
       // Visual styling
       iconSize: 56, // Space station icon size
+      positionTransitionMs: 2000, // Icon glides between updates; the follow camera eases over the same time
 
       // Trajectory styling
       trajectoryColor: [157, 212, 224, 200] as [number, number, number, number], // Light blue to match ISS icon color (#9dd4e0)
+      trajectoryEclipsedColor: [99, 102, 241, 200] as [number, number, number, number], // Indigo while in Earth's shadow
       trajectoryWidth: 1,
       trajectoryOpacity: 0.2,
+      trajectoryOrbitFade: 0.5, // Opacity multiplier for each orbit further from now
+
+      // Time ticks along the ground track
+      trajectoryTicks: {
+        intervalMinutes: 10,
+        color: [226, 232, 240, 220] as [number, number, number, number],
+        radiusPixels: 2,
+        labelSize: 10,
+      },
+
+      // Visibility footprint — where the ISS is above the horizon
+      footprintFillColor: [157, 212, 224, 28] as [number, number, number, number],
+      footprintLineColor: [157, 212, 224, 140] as [number, number, number, number],
+      footprintLineWidth: 1,
+      footprintSteps: 128, // Vertices around the circle
+
+      // Orbital sunrise / sunset markers
+      orbitalEvents: {
+        sunriseColor: [252, 211, 77, 255] as [number, number, number, number],
+        sunsetColor: [129, 140, 248, 255] as [number, number, number, number],
+        radiusPixels: 4,
+        labelSize: 11,
+        crossingPrecisionSeconds: 1, // Bisection stops at this resolution
+      },
 
       // Error display styling
       errorTextSize: 16,
@@ -125,18 +258,23 @@ export const CONFIG = {
     earthquakes: {
       // API Configuration
       apiBaseUrl: 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/',
-      endpoint: 'all_day.geojson', // Past 24 hours, all magnitudes
+      defaultFeedRange: 'day' as 'hour' | 'day' | 'week' | 'month', // Past 24 hours
+      feedMagnitudes: [4.5, 2.5, 1.0], // USGS feed cut-offs, highest first; below 1.0 the "all" feed is used
       updateIntervalMs: 3600000, // 1 hour (60 * 60 * 1000)
 
-      // Level-of-detail filtering
+      // Level-of-detail filtering — every event is cached; smaller ones appear
+      // as you zoom in, and only those inside the viewport are drawn
       lodFiltering: {
         enabled: true,
-        zoomBreakpoints: {
-          2: 4.5,  // At zoom 2, show only M4.5+ (significantThreshold)
-          4: 2.0,  // At zoom 4, show M2.0+
-          6: 1.0,  // At zoom 6, show M1.0+
-          // Above zoom 6: show all earthquakes
-        }
+        zoomBreakpoints: { // Minimum magnitude from each zoom level upwards
+          0: 4.5,
+          3: 3.0,
+          4: 2.0,
+          5: 1.0,
+          6: 0,   // From zoom 6: everything in the feed
+        } as Record<number, number>,
+        maxRendered: 1500, // Per view, largest first
+        viewportPaddingDegrees: 5, // Keeps markers near the edge while panning
       },
 
       // Error display styling
@@ -145,12 +283,49 @@ export const CONFIG = {
       errorBackgroundColor: [15, 23, 42, 204] as [number, number, number, number],
       errorBackgroundPadding: [8, 4, 8, 4] as [number, number, number, number],
 
-      // Filtering options
-      minMagnitudeDisplay: 4.5, // Show M4.5+ earthquakes
+      // Filtering options — the minimum is adjustable in the Live Feeds tab
+      minMagnitudeDisplay: 1.0, // Default: M1.0+ feed; zoomed out, LOD still shows only the larger ones
+      magnitudeSlider: { min: 0, max: 7, step: 0.5 },
 
-      // Performance settings
-      maxEarthquakes: 1000, // Limit for performance
+      // Significance
       significantThreshold: 4.5, // M4.5+ considered significant
+
+      // Depth classes (USGS convention) — colour of epicentre dots and pulse rings
+      depthClasses: [
+        { key: 'shallow', label: 'Shallow', maxDepthKm: 70, color: [220, 30, 30] },
+        { key: 'intermediate', label: 'Intermediate', maxDepthKm: 300, color: [245, 158, 11] },
+        { key: 'deep', label: 'Deep', maxDepthKm: Infinity, color: [59, 130, 246] },
+      ] as { key: string; label: string; maxDepthKm: number; color: [number, number, number] }[],
+
+      // Alert escalation — orange/red PAGER alerts and tsunami-flagged events
+      alerts: {
+        pagerLevels: ['orange', 'red'],
+        colors: {
+          red: [239, 68, 68],
+          orange: [249, 115, 22],
+          tsunami: [34, 211, 238], // When there is no qualifying PAGER level
+        } as Record<'red' | 'orange' | 'tsunami', [number, number, number]>,
+        markerRadiusPixels: 14,
+        markerLineWidthPixels: 3,
+        ringCount: 3,
+        pulseDurationMs: 1600, // Faster than ordinary events
+        pulseSpread: 3.5, // Rings grow to this multiple of the marker
+      },
+
+      // Detail drawer — opened by clicking an event
+      detail: {
+        beachballSize: 112, // px
+        compressionColor: [220, 38, 38] as [number, number, number], // Shaded quadrants of the beachball
+        shakemapLineWidth: 2,
+        shakemapLabelSize: 11,
+      },
+
+      // 3D depth view — each event drawn below the surface at its hypocentre
+      depthView: {
+        pitch: 55,
+        depthExaggeration: 3, // Vertical exaggeration so slabs read at world zoom
+        dropLineColor: [148, 163, 184, 90] as [number, number, number, number],
+      },
     },
     timezones: {
       // Local data configuration (primary)
@@ -162,6 +337,17 @@ export const CONFIG = {
       // Visual styling
       strokeWidth: 1,
     },
+    plateBoundaries: {
+      // Bird (2003) PB2002 steps, bundled by scripts/fetch-plate-boundaries.py
+      dataPath: '/geo-website/data/plate-boundaries.geojson',
+      remoteUrl: 'https://raw.githubusercontent.com/fraxen/tectonicplates/master/GeoJSON/PB2002_steps.json', // fallback when missing
+
+      types: {
+        ridge: { label: 'Ridge', color: [251, 146, 60, 220] as [number, number, number, number], width: 2 },
+        trench: { label: 'Trench', color: [244, 63, 94, 230] as [number, number, number, number], width: 2.5 },
+        transform: { label: 'Transform', color: [45, 212, 191, 220] as [number, number, number, number], width: 1.5 },
+      },
+    },
   },
 
   // True-color daily Earth (NASA GIBS VIIRS)
@@ -199,6 +385,57 @@ export const CONFIG = {
     minProbability: 3, // show even faint aurora
   },
 
+  // Satellite orbits — SGP4 propagation from TLEs
+  satellites: {
+    tle: {
+      dataPath: '/geo-website/data/tle.json', // refreshed daily by .github/workflows/update-tle.yml
+      remoteUrl: 'https://celestrak.org/NORAD/elements/gp.php', // fallback when missing or stale
+      refreshIntervalMs: 21600000, // re-read the bundled file every 6 hours
+      maxAgeDays: 3, // ISS elements drift noticeably after a few days (reboosts, drag)
+    },
+
+    // Catalog — bundled TLEs are fetched for every entry. The ISS has its own
+    // layer (footprint, passes, live video) but shares the tracker's TLE path.
+    issNoradId: 25544,
+    catalog: [
+      { noradId: 25544, name: 'ISS', kind: 'station', color: [255, 245, 140] },
+      { noradId: 20580, name: 'Hubble Space Telescope', kind: 'telescope', color: [196, 181, 253] },
+      { noradId: 48274, name: 'Tiangong', kind: 'station', color: [252, 165, 165] },
+      { noradId: 33591, name: 'NOAA 19', kind: 'weather', color: [134, 239, 172] },
+      { noradId: 43013, name: 'NOAA 20', kind: 'weather', color: [110, 231, 183] },
+      { noradId: 43873, name: 'GPS III SV01', kind: 'navigation', color: [253, 224, 71] },
+      { noradId: 44713, name: 'Starlink-1007', kind: 'starlink', color: [203, 213, 225] },
+    ] as { noradId: number; name: string; kind: 'station' | 'telescope' | 'weather' | 'navigation' | 'starlink'; color: [number, number, number] }[],
+    defaultTracked: [20580, 48274, 33591, 43873, 44713],
+    maxTracked: 12,
+
+    // Colors for satellites added by NORAD ID that are not in the catalog
+    customColors: [
+      [125, 211, 252], [249, 168, 212], [253, 186, 116], [165, 180, 252],
+    ] as [number, number, number][],
+
+    // Styling
+    iconSize: 28,
+    trajectoryWidth: 1.5,
+    trajectoryOpacity: 0.5,
+    trajectoryPoints: 120, // per orbit, whatever the period
+    labelSize: 11,
+
+    // Visible pass predictions for the user's cities
+    passes: {
+      days: 10,
+      repredictAfterDays: 5, // the window is predicted again once the clock is this far into it, or leaves it
+      minElevation: 10, // degrees — lower passes are lost in haze and buildings
+      maxSunElevation: -6, // observer must be past civil twilight
+      coarseStepSeconds: 60, // horizon scan
+      fineStepSeconds: 5, // sampling within a pass
+      standardMagnitude: -1.8, // ISS at 1000 km, half illuminated
+      maxListed: 5, // per city
+      highlightColor: [250, 204, 21, 255] as [number, number, number, number],
+      highlightWidth: 4,
+    },
+  },
+
   // Weather settings
   weather: {
     hurricanes: {
@@ -246,6 +483,14 @@ export const CONFIG = {
     updateFrequency: 10000, // 10 seconds
   },
 
+  // Time travel — simulated clock driving all time-dependent layers
+  timeline: {
+    playbackSpeeds: [1, 60, 3600] as const, // 1x, 1 min/s, 1 h/s
+    playbackTickMs: 250, // clock tick while away from live
+    scrubRangeHours: 72, // slider spans ±72 h around the real time
+    scrubStepMinutes: 5,
+  },
+
   // Layer and source IDs
   layerIds: {
     satellite: 'satellite-layer',
@@ -260,8 +505,10 @@ export const CONFIG = {
     issInfo: 'iss-info',
     earthquakes: 'deck-gl-earthquakes',
     earthquakePositions: 'earthquake-positions',
+    earthquakeAlertMarkers: 'earthquake-alert-markers',
     earthquakeLabels: 'earthquake-labels',
     timezones: 'deck-gl-timezones',
+    plateBoundaries: 'plate-boundaries',
     trueColorEarth: 'true-color-earth-tiles',
     rainRadar: 'rain-radar-tiles',
     aurora: 'aurora-forecast',
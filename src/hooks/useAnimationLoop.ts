@@ -1,6 +1,6 @@
 import { useEffect, useRef } from 'react';
 import { useMapStore } from '../store/mapStore';
-import { EQ_PULSE_DURATION_MS, EQ_RING_COUNT, EQ_PHI_EXPONENT, EQ_PHASE_SPREAD, EQ_BASE_OPACITY, EQ_OPACITY_DECAY } from '../layers/EarthquakeLayer';
+import { EQ_PULSE_DURATION_MS, EQ_RING_COUNT, EQ_PHI_EXPONENT, EQ_PHASE_SPREAD, EQ_BASE_OPACITY, EQ_OPACITY_DECAY, getAlertRingAnimation } from '../layers/EarthquakeLayer';
 import { CONFIG } from '../config';
 import {
   setRainRadarOpacities,
@@ -21,6 +21,7 @@ const RR_CYCLE_MS = RR_HOLD_MS + RR_FADE_MS;
 /**
  * Drives a requestAnimationFrame loop that:
  * - Animates earthquake shockwave rings (radiusScale + opacity)
+ * - Pings the rings around alert earthquakes on their own faster rhythm
  * - Rotates hurricane cyclone icons (getAngle)
  * - Crossfades rain radar animation frames (opacity via module state + store rebuild)
  */
@@ -116,6 +117,12 @@ export function useAnimationLoop() {
           });
         }
 
+        const alertMatch = layer.id?.match(/^earthquake-alert-ring-(\d)$/);
+        if (alertMatch && hasEq) {
+          changed = true;
+          return layer.clone(getAlertRingAnimation(parseInt(alertMatch[1]), now));
+        }
+
         if (layer.id === 'hurricane-positions' && hasHc) {
           changed = true;
           return layer.clone({
@@ -1,21 +1,38 @@
 import { useEffect, useRef } from 'react';
-import { createISSLayers } from '../layers/ISSLayer';
+import { createISSLayers, type ISSTrackSettings } from '../layers/ISSLayer';
+import { createSatelliteLayers } from '../layers/SatelliteLayer';
 import { createHurricaneLayers } from '../layers/HurricaneLayer';
-import { createEarthquakeLayers } from '../layers/EarthquakeLayer';
+import { createEarthquakeLayers, type EarthquakeViewBounds } from '../layers/EarthquakeLayer';
 import { createTimeZonesLayers } from '../layers/TimeZonesLayer';
+import { fetchCalendarZonesData } from '../layers/CalendarDateLayer';
+import { createPlateBoundariesLayers } from '../layers/PlateBoundariesLayer';
 import { createTrueColorEarthLayers } from '../layers/TrueColorEarthLayer';
 import { createRainRadarLayers, getRainRadarRevision } from '../layers/RainRadarLayer';
 import { createAuroraLayers, getAuroraRevision } from '../layers/AuroraLayer';
+import type { ShakeMapContour } from '../services/earthquakeDetailService';
 
 interface ManagerState {
   showISS: boolean;
+  showISSFootprint: boolean;
+  highlightedPass: { start: number; end: number } | null;
+  issTrackSettings: ISSTrackSettings;
+  showSatellites: boolean;
   showHurricanes: boolean;
   showEarthquakes: boolean;
+  isEarthquakesLoading: boolean;
+  earthquakeMinMagnitude: number;
+  showEarthquakeDepth3D: boolean;
+  shakeMapContours: ShakeMapContour[];
   showTimezones: boolean;
+  showPlateBoundaries: boolean;
+  showCalendarDates: boolean;
   showTrueColorEarth: boolean;
   showRainRadar: boolean;
   showAurora: boolean;
   issManager: any;
+  satelliteManager: any;
+  trackedSatellites: number[];
+  satelliteLastUpdate: Date | null;
   hurricaneManager: any;
   earthquakeManager: any;
   trueColorEarthManager: any;
@@ -26,6 +43,8 @@ interface ManagerState {
 interface ManagerActions {
   initializeISSManager: () => Promise<void>;
   destroyISSManager: () => void;
+  initializeSatelliteManager: () => Promise<void>;
+  destroySatelliteManager: () => void;
   initializeHurricaneManager: () => Promise<void>;
   destroyHurricaneManager: () => void;
   initializeEarthquakeManager: () => Promise<void>;
@@ -37,9 +56,12 @@ interface ManagerActions {
   initializeAuroraManager: () => Promise<void>;
   destroyAuroraManager: () => void;
   setISSLayers: (layers: any[]) => void;
+  setSatelliteLayers: (layers: any[]) => void;
   setHurricaneLayers: (layers: any[]) => void;
   setEarthquakeLayers: (layers: any[]) => void;
   setTimezoneLayers: (layers: any[]) => void;
+  setPlateBoundaryLayers: (layers: any[]) => void;
+  setCalendarZones: (zones: any[]) => void;
   setTrueColorEarthLayers: (layers: any[]) => void;
   setRainRadarLayers: (layers: any[]) => void;
   setAuroraLayers: (layers: any[]) => void;
@@ -54,7 +76,9 @@ export const useDataManagers = (
   actions: ManagerActions,
   currentTime: Date,
   currentZoom: number,
-  handleISSClick?: (info: any) => void
+  viewBounds: EarthquakeViewBounds | null,
+  handleISSClick?: (info: any) => void,
+  handleEarthquakeClick?: (info: any) => void
 ) => {
   // Track data revisions to avoid unnecessary layer recreation
   const lastRainRadarRevRef = useRef(-1);
@@ -72,7 +96,11 @@ export const useDataManagers = (
   useEffect(() => {
     if (state.showISS && state.issManager) {
       try {
-        const layers = createISSLayers(currentTime, handleISSClick);
+        const layers = createISSLayers(currentTime, handleISSClick, {
+          showFootprint: state.showISSFootprint,
+          highlightedPass: state.highlightedPass,
+          trackSettings: state.issTrackSettings,
+        });
         actions.setISSLayers(layers);
       } catch (error) {
         actions.setISSLayers([]);
@@ -80,7 +108,29 @@ export const useDataManagers = (
     } else {
       actions.setISSLayers([]);
     }
-  }, [state.showISS, state.issManager, currentTime, actions.setISSLayers, handleISSClick]);
+  }, [state.showISS, state.showISSFootprint, state.highlightedPass, state.issTrackSettings, state.issManager, currentTime, actions.setISSLayers, handleISSClick]);
+
+  // Satellite Manager Effects
+  useEffect(() => {
+    if (state.showSatellites && !state.satelliteManager) {
+      actions.initializeSatelliteManager();
+    } else if (!state.showSatellites && state.satelliteManager) {
+      actions.destroySatelliteManager();
+    }
+  }, [state.showSatellites, state.satelliteManager, actions.initializeSatelliteManager, actions.destroySatelliteManager]);
+
+  useEffect(() => {
+    if (state.showSatellites && state.satelliteManager) {
+      try {
+        const layers = createSatelliteLayers(currentTime, state.trackedSatellites);
+        actions.setSatelliteLayers(layers);
+      } catch (error) {
+        actions.setSatelliteLayers([]);
+      }
+    } else {
+      actions.setSatelliteLayers([]);
+    }
+  }, [state.showSatellites, state.satelliteManager, state.trackedSatellites, state.satelliteLastUpdate, currentTime, actions.setSatelliteLayers]);
 
   // Hurricane Manager Effects
   useEffect(() => {
@@ -117,7 +167,13 @@ export const useDataManagers = (
   useEffect(() => {
     if (state.showEarthquakes && state.earthquakeManager) {
       try {
-        const layers = createEarthquakeLayers(currentTime, currentZoom, 0);
+        const layers = createEarthquakeLayers(currentTime, currentZoom, 0, {
+          minMagnitude: state.earthquakeMinMagnitude,
+          bounds: viewBounds,
+          depth3D: state.showEarthquakeDepth3D,
+          onEarthquakeClick: handleEarthquakeClick,
+          shakeMapContours: state.shakeMapContours,
+        });
         actions.setEarthquakeLayers(layers);
         actions.setEarthquakeLastUpdate(new Date());
       } catch (error) {
@@ -126,7 +182,7 @@ export const useDataManagers = (
     } else {
       actions.setEarthquakeLayers([]);
     }
-  }, [state.showEarthquakes, state.earthquakeManager, currentTime, currentZoom, actions.setEarthquakeLayers, actions.setEarthquakeLastUpdate]);
+  }, [state.showEarthquakes, state.earthquakeManager, state.isEarthquakesLoading, state.earthquakeMinMagnitude, state.showEarthquakeDepth3D, state.shakeMapContours, currentTime, currentZoom, viewBounds, handleEarthquakeClick, actions.setEarthquakeLayers, actions.setEarthquakeLastUpdate]);
 
   // Timezone Manager Effects
   useEffect(() => {
@@ -145,6 +201,32 @@ export const useDataManagers = (
     }
   }, [state.showTimezones, actions.setTimezoneLayers]);
 
+  // Plate boundary effects (loaded once, cached by the layer module)
+  useEffect(() => {
+    if (state.showPlateBoundaries) {
+      createPlateBoundariesLayers().then(layers => {
+        actions.setPlateBoundaryLayers(layers);
+      }).catch(() => {
+        actions.setPlateBoundaryLayers([]);
+      });
+    } else {
+      actions.setPlateBoundaryLayers([]);
+    }
+  }, [state.showPlateBoundaries, actions.setPlateBoundaryLayers]);
+
+  // Calendar-date regions (cached after first load)
+  useEffect(() => {
+    if (state.showCalendarDates) {
+      fetchCalendarZonesData().then(zones => {
+        actions.setCalendarZones(zones);
+      }).catch(() => {
+        actions.setCalendarZones([]);
+      });
+    } else {
+      actions.setCalendarZones([]);
+    }
+  }, [state.showCalendarDates, actions.setCalendarZones]);
+
   // True-Color Earth Manager Effects
   useEffect(() => {
     if (state.showTrueColorEarth && !state.trueColorEarthManager) {
@@ -0,0 +1,30 @@
+/**
+ * 3D earthquake depth view
+ * Tilts the camera so hypocentres drawn below the surface can be seen, and
+ * turns on drag-to-rotate/pitch while the view is active. Leaving it
+ * levels the map again and restores the flat-map interactions.
+ */
+
+import { useEffect } from 'react';
+import { useMapStore } from '../store/mapStore';
+import { CONFIG } from '../config';
+
+export function useEarthquakeDepthView() {
+  const { map, showEarthquakeDepth3D } = useMapStore();
+
+  useEffect(() => {
+    if (!map) return;
+
+    if (showEarthquakeDepth3D) {
+      map.dragRotate.enable();
+      map.touchPitch.enable();
+      map.easeTo({ pitch: CONFIG.styles.earthquakes.depthView.pitch, essential: true });
+    } else {
+      map.dragRotate.disable();
+      map.touchPitch.disable();
+      if (map.getPitch() !== 0 || map.getBearing() !== 0) {
+        map.easeTo({ pitch: 0, bearing: 0, essential: true });
+      }
+    }
+  }, [map, showEarthquakeDepth3D]);
+}
@@ -0,0 +1,58 @@
+/**
+ * Follow-the-ISS camera mode
+ * Re-centres the map on every position update, easing over the same
+ * duration as the icon's position transition so the two move together.
+ * Any hand pan hands control back to the user.
+ */
+
+import { useEffect } from 'react';
+import { useMapStore } from '../store/mapStore';
+import { getISSPosition } from '../layers/ISSLayer';
+import { CONFIG } from '../config';
+
+export function useISSFollow() {
+  const { map, showISS, followISS, issManager, currentTime, setFollowISS, toggleFollowISS } = useMapStore();
+
+  // Ease to the station whenever the simulated time moves
+  useEffect(() => {
+    if (!map || !followISS || !issManager) return;
+
+    const position = getISSPosition(currentTime);
+    if (!position) return;
+
+    map.easeTo({
+      center: [position.longitude, position.latitude],
+      duration: CONFIG.styles.iss.positionTransitionMs,
+      easing: (t: number) => t, // linear, like the icon's interpolation
+      essential: true,
+    });
+  }, [map, followISS, issManager, currentTime]);
+
+  // A drag started by the user exits follow mode (easeTo does not fire dragstart)
+  useEffect(() => {
+    if (!map || !followISS) return;
+
+    const handleDragStart = () => setFollowISS(false);
+    map.on('dragstart', handleDragStart);
+    return () => {
+      map.off('dragstart', handleDragStart);
+    };
+  }, [map, followISS, setFollowISS]);
+
+  // "F" toggles follow mode while the station is on the map
+  useEffect(() => {
+    if (!showISS) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA' || target?.isContentEditable) return;
+      if (event.key === 'f' || event.key === 'F') {
+        if (event.metaKey || event.ctrlKey || event.altKey) return;
+        toggleFollowISS();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [showISS, toggleFollowISS]);
+}
@@ -6,7 +6,10 @@
 import { useEffect, useRef } from 'react';
 import maplibregl from 'maplibre-gl';
 import { MapboxOverlay } from '@deck.gl/mapbox';
-import { createLayerTooltip } from '../utils/tooltipFactory';
+import { createDaylightTooltip, createLayerTooltip, createSunReadoutTooltip } from '../utils/tooltipFactory';
+import { getSunAtPoint } from '../services/solarTimesService';
+import { getDaylightHoursAtLatitude } from '../layers/DaylightLayer';
+import { useMapStore, getSimulatedTime } from '../store/mapStore';
 import { CONFIG } from '../config';
 
 export const useMapInstance = (
@@ -84,9 +87,10 @@ export const useMapInstance = (
       zoom: CONFIG.map.zoom.default,
       minZoom: CONFIG.map.zoom.min,
       maxZoom: CONFIG.map.zoom.max,
-      dragRotate: false,
+      dragRotate: false, // Enabled only in the 3D earthquake depth view
       touchZoomRotate: false,
-      pitchWithRotate: false,
+      touchPitch: false,
+      pitchWithRotate: true, // Read once here; takes effect when dragRotate is enabled
       keyboard: false,
       attributionControl: false,
     });
@@ -119,7 +123,22 @@ export const useMapInstance = (
         // Initialize deck.gl overlay
         const deckOverlay = new MapboxOverlay({
           interleaved: false,
-          getTooltip: ({object, layer}) => createLayerTooltip(object, layer),
+          getTooltip: ({object, layer, coordinate}) => {
+            const layerTooltip = createLayerTooltip(object, layer);
+            if (layerTooltip || !coordinate) return layerTooltip;
+
+            // Nothing picked — fall back to the sun readout for the cursor
+            // position, with the day length there while the daylight layer is on
+            const state = useMapStore.getState();
+            if (!state.showSunReadout && !state.showDaylight) return null;
+            const lon = ((coordinate[0] + 540) % 360) - 180; // world copies wrap past ±180
+            const lat = coordinate[1];
+            const date = getSimulatedTime(state);
+            if (!state.showSunReadout) return createDaylightTooltip({ latitude: lat, hours: getDaylightHoursAtLatitude(lat, date) });
+            const sun = getSunAtPoint(lon, lat, date);
+            const daylightHours = state.showDaylight ? getDaylightHoursAtLatitude(lat, date) : undefined;
+            return sun ? createSunReadoutTooltip(sun, [lon, lat], daylightHours) : null;
+          },
         });
         
         map.addControl(deckOverlay);
@@ -4,20 +4,33 @@
  */
 
 import { useMemo, useState, useEffect } from 'react';
-import { createNightLayers, createTerminatorLayer, type NightStyleKey } from '../layers/NightLayer';
+import { createNightLayers, createTerminatorLayer, createTwilightLayers, type NightStyleKey, type TwilightZone } from '../layers/NightLayer';
+import { createMoonLayers } from '../layers/MoonLayer';
+import { createDaylightLayers } from '../layers/DaylightLayer';
+import { createCalendarDateLayers, type CalendarZoneDatum } from '../layers/CalendarDateLayer';
+import { createEclipseLayers } from '../layers/EclipseLayer';
 import { createMountainsLayers } from '../layers/MountainsLayer';
 import { createUnescoLayers } from '../layers/UnescoLayer';
 import { createCityTimesLayers } from '../layers/CityTimesLayer';
 import type { City } from '../services/simpleCityService';
+import type { EclipseSummary } from '../services/eclipseService';
 
 interface LayerVisibility {
   showTerminator: boolean;
+  showTwilightLines: Record<TwilightZone, boolean>;
+  showMoon: boolean;
+  showMoonlitHemisphere: boolean;
+  showDaylight: boolean;
+  showCalendarDates: boolean;
+  selectedEclipse: EclipseSummary | null;
   showNight: boolean;
   showCities: boolean;
   showMountains: boolean;
   showUnesco: boolean;
   showTimezones: boolean;
+  showPlateBoundaries: boolean;
   showISS: boolean;
+  showSatellites: boolean;
   showHurricanes: boolean;
   showEarthquakes: boolean;
   showTrueColorEarth: boolean;
@@ -28,9 +41,12 @@ interface LayerVisibility {
 
 interface LayerData {
   issLayers: any[];
+  satelliteLayers: any[];
   hurricaneLayers: any[];
   earthquakeLayers: any[];
   timezoneLayers: any[];
+  plateBoundaryLayers: any[];
+  calendarZones: CalendarZoneDatum[];
   trueColorEarthLayers: any[];
   rainRadarLayers: any[];
   auroraLayers: any[];
@@ -100,10 +116,26 @@ export const useMapLayers = (
     );
   }, [unescoLayersState, visibility.showUnesco]);
 
+  // Selected eclipse (fixed geometry — recomputed only when the selection or cities change)
+  const eclipseLayers = useMemo(() => {
+    if (!visibility.selectedEclipse) return [];
+    return createEclipseLayers(visibility.selectedEclipse, cities);
+  }, [visibility.selectedEclipse, cities]);
+
   // Time-dependent layers
   const timeDependentLayers = useMemo(() => {
     const layers: any[] = [];
 
+    // Calendar-date regions and midnight meridian (below the night shadow)
+    if (visibility.showCalendarDates) {
+      layers.push(...createCalendarDateLayers(layerData.calendarZones, currentTime));
+    }
+
+    // Daylight-hours heatmap (below the night shadow)
+    if (visibility.showDaylight) {
+      layers.push(...createDaylightLayers(currentTime));
+    }
+
     // Night visualization layers (shadow / black marble)
     if (visibility.showNight) {
       const nightLayers = createNightLayers(currentTime, visibility.nightStyle);
@@ -124,20 +156,28 @@ export const useMapLayers = (
       }));
     });
 
+    // Twilight boundary lines (each zone toggled independently)
+    layers.push(...createTwilightLayers(currentTime, visibility.showTwilightLines));
+
+    // Moon position, phase and moonlit hemisphere
+    if (visibility.showMoon) {
+      layers.push(...createMoonLayers(currentTime, visibility.showMoonlitHemisphere));
+    }
+
     // City times layers
     const cityTimesLayers = createCityTimesLayers(cities, currentTime);
     cityTimesLayers.forEach(layer => {
       layers.push(layer.clone({
         visible: visibility.showCities,
         updateTriggers: {
-          getText: currentTime.getMinutes(),
+          getText: currentTime.getTime(),
           getPosition: cities.map(c => c.id).join(',')
         }
       }));
     });
 
     return layers;
-  }, [currentTime, visibility.showTerminator, visibility.showNight, visibility.nightStyle, visibility.showCities, cities]);
+  }, [currentTime, visibility.showTerminator, visibility.showTwilightLines, visibility.showMoon, visibility.showMoonlitHemisphere, visibility.showDaylight, visibility.showCalendarDates, layerData.calendarZones, visibility.showNight, visibility.nightStyle, visibility.showCities, cities]);
 
   // True-color Earth layers (below everything except basemap)
   const trueColorEarthLayers = useMemo(() => {
@@ -238,21 +278,36 @@ currentTime
     return layers;
   }, [visibility.showISS, layerData.issLayers, currentTime]);
 
+  // Plate boundaries — loaded once, drawn beneath the earthquakes
+  const plateBoundaryLayers = useMemo(() => {
+    if (!visibility.showPlateBoundaries) return [];
+    return layerData.plateBoundaryLayers;
+  }, [visibility.showPlateBoundaries, layerData.plateBoundaryLayers]);
+
+  // Tracked satellites — rebuilt by the manager hook on every tick
+  const satelliteLayers = useMemo(() => {
+    if (!visibility.showSatellites) return [];
+    return layerData.satelliteLayers;
+  }, [visibility.showSatellites, layerData.satelliteLayers]);
+
   // Combine all layers (order matters - first layers render at bottom)
   const allLayers = useMemo(() => {
     return [
       ...trueColorEarthLayers,   // Bottom-most: satellite imagery overlay
       ...rainRadarLayers,         // Rain radar above basemap
       ...auroraLayers,            // Aurora above radar
+      ...plateBoundaryLayers,     // Plate context for the earthquakes
       ...earthquakeLayers,        // Earthquake data layer
       ...staticLayers,
       ...unescoLayers,            // UNESCO layers (zoom-dependent)
       ...zoomDependentLayers,
+      ...eclipseLayers,           // Eclipse paths below the night shading
       ...timeDependentLayers,
       ...middleDataLayers,        // Middle data layers (hurricanes, planes)
+      ...satelliteLayers,         // Tracked satellites just below the ISS
       ...issLayers                // Top-most data layer
     ];
-  }, [trueColorEarthLayers, rainRadarLayers, auroraLayers, earthquakeLayers, staticLayers, unescoLayers, zoomDependentLayers, timeDependentLayers, middleDataLayers, issLayers]);
+  }, [trueColorEarthLayers, rainRadarLayers, auroraLayers, plateBoundaryLayers, earthquakeLayers, staticLayers, unescoLayers, zoomDependentLayers, eclipseLayers, timeDependentLayers, middleDataLayers, satelliteLayers, issLayers]);
 
   return allLayers;
 };
@@ -0,0 +1,187 @@
+/**
+ * Calendar Date Layer — time zones shaded by their current local date, and
+ * the meridian where local mean midnight currently falls, labelled with the
+ * weekday on either side.
+ *
+ * Land polygons carry the IANA zone whose rules they follow, so their
+ * current offset (daylight saving included) comes from Intl; open sea keeps
+ * its nominal standard offset.
+ */
+
+import { PathLayer, PolygonLayer, TextLayer } from '@deck.gl/layers';
+import type { Layer } from '@deck.gl/core';
+import { CONFIG } from '../config';
+import { fetchTimeZonesData } from './TimeZonesLayer';
+
+export interface CalendarZoneDatum {
+  coordinates: any;
+  properties: { UTC_OFFSET: number; NAME: string; IANA_ZONE?: string }; // UTC_OFFSET is standard time; IANA_ZONE on land
+}
+
+interface MeridianLabel {
+  position: [number, number];
+  text: string;
+  anchor: 'start' | 'end';
+  offset: [number, number];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MS_PER_DEGREE = 4 * 60 * 1000; // mean solar time: 1° of longitude = 4 min
+const { calendar: calendarStyle } = CONFIG.styles;
+
+// Simple cache for processed zone data
+let calendarZonesCache: CalendarZoneDatum[] | null = null;
+
+/**
+ * Fetch the calendar zones, one entry per polygon. Land is split along the
+ * IANA zones (scripts/build-calendar-zones.ts); without that file the time
+ * zone polygons are used, on standard time only.
+ */
+export async function fetchCalendarZonesData(): Promise<CalendarZoneDatum[]> {
+  if (calendarZonesCache) {
+    return calendarZonesCache;
+  }
+
+  try {
+    const response = await fetch(calendarStyle.dataPath);
+    if (response.ok) {
+      const geojsonData = await response.json();
+      const processedData = processGeoJsonFeatures(geojsonData);
+      if (processedData.length > 0) {
+        calendarZonesCache = processedData;
+        return processedData;
+      }
+    }
+  } catch (localFileError) {
+    console.warn('Failed to load calendar zones, falling back to standard-time zones:', localFileError);
+  }
+
+  return fetchTimeZonesData();
+}
+
+function processGeoJsonFeatures(geojsonData: any): CalendarZoneDatum[] {
+  return (geojsonData?.features ?? []).flatMap((feature: any) => {
+    const { type, coordinates } = feature.geometry ?? {};
+    const polygons = type === 'Polygon' ? [coordinates] : type === 'MultiPolygon' ? coordinates : [];
+    const { ZONE, IANA_ZONE } = feature.properties ?? {};
+    return polygons.map((polygon: any) => ({
+      coordinates: polygon,
+      properties: { UTC_OFFSET: Number(ZONE) || 0, NAME: IANA_ZONE ?? `UTC${ZONE >= 0 ? '+' : ''}${ZONE}`, IANA_ZONE },
+    }));
+  });
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Current UTC offset of a zone polygon in hours, daylight saving included
+ */
+export function getZoneUtcOffset(zone: CalendarZoneDatum, date: Date): number {
+  const ianaZone = zone.properties.IANA_ZONE;
+  if (!ianaZone) return zone.properties.UTC_OFFSET;
+
+  let formatter = formatterCache.get(ianaZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: ianaZone, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric',
+    });
+    formatterCache.set(ianaZone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, Number(part.value)]));
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return Math.round((wallClock - Math.floor(date.getTime() / 60000) * 60000) / (HOUR_MS / 4)) / 4;
+}
+
+/**
+ * Local calendar date in a zone polygon, as a Date whose UTC fields hold
+ * the local wall-clock values
+ */
+export function getZoneLocalDate(zone: CalendarZoneDatum, date: Date): Date {
+  return new Date(date.getTime() + getZoneUtcOffset(zone, date) * HOUR_MS);
+}
+
+function getWeekdayName(localDate: Date): string {
+  return localDate.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
+}
+
+/**
+ * Longitude where local mean solar time is 00:00
+ */
+export function getMidnightLongitude(date: Date): number {
+  const utcHours = (((date.getTime() % DAY_MS) + DAY_MS) % DAY_MS) / HOUR_MS;
+  return ((-15 * utcHours) % 360 + 540) % 360 - 180;
+}
+
+// ── Layer factory ────────────────────────────────────────────────────
+
+export function createCalendarDateLayers(zones: CalendarZoneDatum[], date: Date): Layer[] {
+  const layers: Layer[] = [];
+
+  if (zones.length > 0) {
+    layers.push(
+      new PolygonLayer({
+        id: 'calendar-date-regions',
+        data: zones,
+        getPolygon: (d: CalendarZoneDatum) => d.coordinates,
+        getFillColor: (d: CalendarZoneDatum) => {
+          const weekday = getZoneLocalDate(d, date).getUTCDay();
+          return [...calendarStyle.weekdayColors[weekday], calendarStyle.fillAlpha];
+        },
+        filled: true,
+        stroked: false,
+        pickable: true,
+        parameters: { depthTest: false },
+        // Offsets are whole quarter hours — dates can only change on those
+        updateTriggers: { getFillColor: Math.floor(date.getTime() / (HOUR_MS / 4)) },
+      })
+    );
+  }
+
+  const lon = getMidnightLongitude(date);
+  const newDay = getWeekdayName(new Date(date.getTime() + (lon + 0.5) * MS_PER_DEGREE));
+  const previousDay = getWeekdayName(new Date(date.getTime() + (lon - 0.5) * MS_PER_DEGREE));
+
+  layers.push(
+    new PathLayer({
+      id: 'midnight-meridian',
+      data: [{ path: [[lon, -85], [lon, 85]] }],
+      getPath: (d: any) => d.path,
+      getColor: calendarStyle.meridianColor,
+      getWidth: calendarStyle.meridianWidth,
+      widthUnits: 'pixels',
+      pickable: false,
+      parameters: { depthTest: false },
+    })
+  );
+
+  // West of the line is still yesterday, east of it today has begun
+  const labels: MeridianLabel[] = calendarStyle.labelLatitudes.flatMap(lat => [
+    { position: [lon, lat] as [number, number], text: previousDay, anchor: 'end' as const, offset: [-6, 0] as [number, number] },
+    { position: [lon, lat] as [number, number], text: newDay, anchor: 'start' as const, offset: [6, 0] as [number, number] },
+  ]);
+  layers.push(
+    new TextLayer({
+      id: 'midnight-meridian-labels',
+      data: labels,
+      getPosition: (d: MeridianLabel) => d.position,
+      getText: (d: MeridianLabel) => d.text,
+      getTextAnchor: (d: MeridianLabel) => d.anchor,
+      getPixelOffset: (d: MeridianLabel) => d.offset,
+      getAlignmentBaseline: 'center',
+      getSize: 12,
+      getColor: [255, 255, 255, 230],
+      fontFamily: CONFIG.styles.cities.fontFamily,
+      background: true,
+      getBackgroundColor: [15, 23, 42, 180],
+      backgroundPadding: [4, 2],
+      pickable: false,
+      parameters: { depthTest: false },
+      updateTriggers: { getText: `${previousDay}|${newDay}` },
+    })
+  );
+
+  return layers;
+}
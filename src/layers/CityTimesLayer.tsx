@@ -6,11 +6,13 @@
 import { TextLayer, ScatterplotLayer, LineLayer } from '@deck.gl/layers';
 import { forceSimulation, forceCollide, forceX, forceY } from 'd3-force';
 import { City, getCityLocalTime } from '../services/simpleCityService';
+import { getCitySolarTimes, type SolarTimes } from '../services/solarTimesService';
 import { CONFIG } from '../config';
 
 interface CityTimesLayerData {
   city: City;
   time: string;
+  solarTimes: SolarTimes | null;
   position: [number, number];
   labelPosition: [number, number];
   needsLeaderLine: boolean;
@@ -93,6 +95,7 @@ function calculateCollisionFreePositions(cities: City[], currentTime: Date): Cit
     return {
       city,
       time,
+      solarTimes: getCitySolarTimes(city, currentTime),
       position: city.coordinates,
       labelPosition: finalPosition,
       needsLeaderLine: hasOffset,
@@ -127,7 +130,7 @@ export function createCityTimesLayers(cities: City[], currentTime: Date): any[]
     getLineColor: [0, 0, 0, 100],
     getLineWidth: 0.5,
     radiusUnits: 'pixels',
-    pickable: false,
+    pickable: true, // Hover shows sunrise/sunset tooltip
     stroked: true,
     filled: true,
   }));
@@ -191,7 +194,7 @@ export function createCityTimesLayers(cities: City[], currentTime: Date): any[]
     characterSet: 'auto',
     
     updateTriggers: {
-      getText: [currentTime.getMinutes()],
+      getText: [currentTime.getTime()],
       getPosition: [cities.map(c => c.id).join(',')],
     },
   }));
@@ -0,0 +1,113 @@
+/**
+ * Daylight Layer — the globe coloured by hours of daylight on the current
+ * date, in latitude bands from the solar declination, with the midnight-sun
+ * and polar-night regions outlined.
+ */
+
+import { GeoJsonLayer, PathLayer, SolidPolygonLayer } from '@deck.gl/layers';
+import type { Layer } from '@deck.gl/core';
+import {
+  getDaylightHours, getPolarDayNightRegions, getSubsolarPoint,
+} from '../utils/nightSideGeometry';
+import { CONFIG } from '../config';
+
+export interface DaylightBand {
+  polygon: [number, number][];
+  latitude: number;   // band centre
+  hours: number;      // daylight at the band centre
+}
+
+const MERCATOR_LIMIT = 85;
+const { daylight: daylightStyle } = CONFIG.styles;
+
+/**
+ * Interpolate the configured colour stops at a number of daylight hours
+ */
+export function getDaylightColor(hours: number): [number, number, number] {
+  const stops = daylightStyle.colorStops;
+  for (let i = 1; i < stops.length; i++) {
+    const [h1, c1] = stops[i];
+    if (hours <= h1) {
+      const [h0, c0] = stops[i - 1];
+      const t = (hours - h0) / (h1 - h0);
+      return [0, 1, 2].map(k => Math.round(c0[k] + (c1[k] - c0[k]) * t)) as [number, number, number];
+    }
+  }
+  return stops[stops.length - 1][1];
+}
+
+/**
+ * Hours of daylight at a latitude on the given date
+ */
+export function getDaylightHoursAtLatitude(latitude: number, date: Date): number {
+  return getDaylightHours(latitude, getSubsolarPoint(date)[1]);
+}
+
+function getDaylightBands(declination: number): DaylightBand[] {
+  const step = daylightStyle.bandDegrees;
+  const bands: DaylightBand[] = [];
+  for (let south = -MERCATOR_LIMIT; south < MERCATOR_LIMIT; south += step) {
+    const north = Math.min(south + step, MERCATOR_LIMIT);
+    const latitude = (south + north) / 2;
+    bands.push({
+      polygon: [[-180, south], [180, south], [180, north], [-180, north], [-180, south]],
+      latitude,
+      hours: getDaylightHours(latitude, declination),
+    });
+  }
+  return bands;
+}
+
+// ── Layer factory ────────────────────────────────────────────────────
+
+export function createDaylightLayers(date: Date): Layer[] {
+  const declination = getSubsolarPoint(date)[1];
+  const { midnightSun, polarNight } = getPolarDayNightRegions(date);
+
+  const layers: Layer[] = [
+    new SolidPolygonLayer({
+      id: 'daylight-bands',
+      data: getDaylightBands(declination),
+      getPolygon: (d: DaylightBand) => d.polygon,
+      getFillColor: (d: DaylightBand) => getDaylightColor(d.hours),
+      opacity: daylightStyle.opacity,
+      pickable: false, // the hover readout reports day length at the cursor
+      parameters: { depthTest: false },
+      updateTriggers: { getFillColor: declination },
+    }),
+  ];
+
+  const regions = [
+    { id: 'daylight-midnight-sun', region: midnightSun, color: daylightStyle.midnightSunColor },
+    { id: 'daylight-polar-night', region: polarNight, color: daylightStyle.polarNightColor },
+  ];
+  for (const { id, region, color } of regions) {
+    if (!region) continue;
+    const [r, g, b] = color;
+    const edge = region.properties!.edge as number;
+    layers.push(
+      new GeoJsonLayer({
+        id: `${id}-region`,
+        data: [region],
+        filled: true,
+        stroked: false,
+        getFillColor: [r, g, b, daylightStyle.regionFillAlpha],
+        pickable: false,
+        parameters: { depthTest: false },
+      }),
+      // Only the equatorward edge is a real boundary — the rest is the map edge
+      new PathLayer({
+        id: `${id}-outline`,
+        data: [{ path: [[-180, edge], [180, edge]] }],
+        getPath: (d: any) => d.path,
+        getColor: color,
+        getWidth: daylightStyle.outlineWidth,
+        widthUnits: 'pixels',
+        pickable: false,
+        parameters: { depthTest: false },
+      })
+    );
+  }
+
+  return layers;
+}
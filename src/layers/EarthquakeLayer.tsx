@@ -1,12 +1,16 @@
 /**
  * Earthquake Layer using USGS GeoJSON API
- * Real-time earthquake data with magnitude-based styling and significance filtering
+ * Real-time earthquake data with magnitude-based styling and significance filtering.
+ * Every event in the feed is cached; what is drawn depends on zoom and viewport.
  */
 
-import { ScatterplotLayer, TextLayer } from '@deck.gl/layers';
+import { LineLayer, PathLayer, ScatterplotLayer, TextLayer } from '@deck.gl/layers';
 import type { Layer } from '@deck.gl/core';
 import { CONFIG } from '../config';
 import { safeAsyncOperation } from '../utils/errorHandler';
+import { getEarthquakeFeedUrl, type EarthquakeFeedSettings } from '../services/earthquakeFeedService';
+import { getAlertColor, getPagerLevel, isAlertEvent, type EarthquakeAlert } from '../services/earthquakeAlertService';
+import { formatIntensity, type ShakeMapContour } from '../services/earthquakeDetailService';
 
 // ── Earthquake animation constants ───────────────────────────────────────
 export const EQ_RING_COUNT = 5;
@@ -19,8 +23,27 @@ export const EQ_BASE_OPACITY = 0.75;
 export const EQ_OPACITY_DECAY = 0.1;
 const EQ_EPICENTER_SCALE = 0.35;
 export const EQ_PULSE_DURATION_MS = 5000;
-const EQ_LINE_COLOR: [number, number, number] = [220, 30, 30];
-const EQ_EPICENTER_COLOR: [number, number, number, number] = [220, 30, 30, 255];
+
+/**
+ * Alert rings — a sharper, faster "ping" than ordinary events: each ring
+ * grows linearly and fades quadratically, evenly staggered
+ */
+export function getAlertRingAnimation(ringIndex: number, now: number): { radiusScale: number; opacity: number } {
+  const { ringCount, pulseDurationMs, pulseSpread } = CONFIG.styles.earthquakes.alerts;
+  const phase = ((now % pulseDurationMs) / pulseDurationMs + ringIndex / ringCount) % 1;
+  return {
+    radiusScale: 1 + phase * (pulseSpread - 1),
+    opacity: Math.pow(1 - phase, 2),
+  };
+}
+
+/**
+ * Depth class of a hypocentre — shallow, intermediate or deep
+ */
+export function getDepthClass(depthKm: number) {
+  const { depthClasses } = CONFIG.styles.earthquakes;
+  return depthClasses.find(depthClass => depthKm < depthClass.maxDepthKm) ?? depthClasses[depthClasses.length - 1];
+}
 
 /** Magnitude line-width factor: M4.5→0.5x, M5.5→0.7x, M7→1.0x, M8→1.15x */
 function magLineWidthFactor(mag: number): number {
@@ -80,8 +103,20 @@ interface USGSEarthquakeResponse {
   features: USGSEarthquakeFeature[];
 }
 
+/** Visible map area as [west, south, east, north]; west may be below -180 */
+export type EarthquakeViewBounds = [number, number, number, number];
+
+export interface EarthquakeLayerOptions {
+  minMagnitude?: number;
+  bounds?: EarthquakeViewBounds | null;
+  depth3D?: boolean; // draw each event at its depth below the surface
+  onEarthquakeClick?: (info: any) => void;
+  shakeMapContours?: ShakeMapContour[]; // Intensity contours of the event open in the detail drawer
+}
+
 interface EarthquakeLayerData {
-  earthquakes: USGSEarthquakeFeature[];
+  earthquakes: USGSEarthquakeFeature[]; // Whole feed, largest magnitude first
+  feedUrl: string | null;
   lastUpdate: Date | null;
   nextUpdate: Date | null;
   error: string | null;
@@ -89,9 +124,12 @@ interface EarthquakeLayerData {
   significantCount: number; // Magnitude 4.5+
 }
 
+let latestUpdateRequest = 0;
+
 // Earthquake data cache
 let earthquakeDataCache: EarthquakeLayerData = {
   earthquakes: [],
+  feedUrl: null,
   lastUpdate: null,
   nextUpdate: null,
   error: null,
@@ -103,9 +141,7 @@ let earthquakeDataCache: EarthquakeLayerData = {
 /**
  * Fetch earthquake data from USGS API
  */
-async function fetchEarthquakeData(): Promise<USGSEarthquakeResponse> {
-  const url = `${CONFIG.styles.earthquakes.apiBaseUrl}${CONFIG.styles.earthquakes.endpoint}`;
-
+async function fetchEarthquakeData(url: string): Promise<USGSEarthquakeResponse> {
   const response = await fetch(url);
   if (!response.ok) {
     throw new Error(`USGS API error: ${response.status} ${response.statusText}`);
@@ -122,7 +158,6 @@ function validateEarthquakeFeature(feature: USGSEarthquakeFeature): boolean {
     feature.geometry?.coordinates &&
     feature.geometry.coordinates.length >= 2 &&
     typeof feature.properties?.mag === 'number' &&
-    feature.properties.mag >= CONFIG.styles.earthquakes.minMagnitudeDisplay &&
     feature.properties.place &&
     feature.properties.time
   );
@@ -131,33 +166,36 @@ function validateEarthquakeFeature(feature: USGSEarthquakeFeature): boolean {
 /**
  * Update earthquake data from USGS API
  */
-async function updateEarthquakeData(): Promise<void> {
+async function updateEarthquakeData(settings: EarthquakeFeedSettings): Promise<void> {
+  const url = getEarthquakeFeedUrl(settings);
+  const request = ++latestUpdateRequest;
   const result = await safeAsyncOperation(
     async () => {
-      const data = await fetchEarthquakeData();
+      const data = await fetchEarthquakeData(url);
       
       // Validate response structure
       if (!data.features || !Array.isArray(data.features)) {
         throw new Error('Invalid USGS response format');
       }
       
-      // Filter and process earthquakes
-      const validEarthquakes = data.features.filter(validateEarthquakeFeature);
-      
-      // Apply performance limits
-      const limitedEarthquakes = validEarthquakes.slice(0, CONFIG.styles.earthquakes.maxEarthquakes);
+      // Keep every valid event — magnitude, zoom and viewport filtering happen per render.
+      // Largest first, so a render budget always keeps the biggest events.
+      const validEarthquakes = data.features
+        .filter(validateEarthquakeFeature)
+        .sort((a, b) => b.properties.mag - a.properties.mag);
       
       // Calculate significant earthquake count
-      const significantCount = limitedEarthquakes.filter(
+      const significantCount = validEarthquakes.filter(
         eq => eq.properties.mag >= CONFIG.styles.earthquakes.significantThreshold
       ).length;
       
       const newData = {
-        earthquakes: limitedEarthquakes,
+        earthquakes: validEarthquakes,
+        feedUrl: url,
         lastUpdate: new Date(),
         nextUpdate: new Date(Date.now() + CONFIG.styles.earthquakes.updateIntervalMs),
         error: null,
-        totalCount: limitedEarthquakes.length,
+        totalCount: validEarthquakes.length,
         significantCount
       };
       
@@ -166,6 +204,7 @@ async function updateEarthquakeData(): Promise<void> {
     'fetch earthquake data from USGS API',
     {
       earthquakes: [],
+      feedUrl: null,
       lastUpdate: null as Date | null,
       nextUpdate: null as Date | null,
       error: 'Failed to fetch earthquake data' as string | null,
@@ -174,7 +213,10 @@ async function updateEarthquakeData(): Promise<void> {
     } as EarthquakeLayerData
   );
   
-  earthquakeDataCache = result;
+  // A slow download must not overwrite the result of a newer setting
+  if (request === latestUpdateRequest) {
+    earthquakeDataCache = result;
+  }
 }
 
 /**
@@ -183,16 +225,58 @@ async function updateEarthquakeData(): Promise<void> {
 import { BaseDataManager } from '../utils/BaseDataManager';
 
 export class EarthquakeManager extends BaseDataManager<EarthquakeLayerData> {
-  constructor() {
+  private settings: EarthquakeFeedSettings;
+
+  constructor(settings: EarthquakeFeedSettings, onUpdateSuccess?: () => void) {
     super({
-      updateFunction: updateEarthquakeData,
+      updateFunction: () => updateEarthquakeData(this.settings),
       updateIntervalMs: CONFIG.styles.earthquakes.updateIntervalMs,
-      getDataCache: () => earthquakeDataCache
+      getDataCache: () => earthquakeDataCache,
+      onUpdateSuccess,
     });
+    this.settings = settings;
+  }
+
+  /**
+   * Change feed or minimum magnitude; only a different feed is downloaded
+   */
+  async setSettings(settings: EarthquakeFeedSettings): Promise<void> {
+    this.settings = settings;
+    if (getEarthquakeFeedUrl(settings) !== earthquakeDataCache.feedUrl) {
+      await updateEarthquakeData(settings);
+    }
   }
 }
 
 
+/**
+ * URL of the feed currently loaded, or null if the last download failed
+ */
+export function getLoadedEarthquakeFeedUrl(): string | null {
+  return earthquakeDataCache.feedUrl;
+}
+
+/**
+ * Escalated events in the current feed, newest first
+ */
+export function getEarthquakeAlerts(): EarthquakeAlert[] {
+  return earthquakeDataCache.earthquakes
+    .filter(eq => isAlertEvent(eq.properties.alert, eq.properties.tsunami))
+    .map(eq => ({
+      id: eq.id,
+      magnitude: eq.properties.mag,
+      place: eq.properties.place,
+      time: eq.properties.time,
+      longitude: eq.geometry.coordinates[0],
+      latitude: eq.geometry.coordinates[1],
+      depthKm: eq.geometry.coordinates[2] ?? 0,
+      pagerLevel: getPagerLevel(eq.properties.alert),
+      tsunami: eq.properties.tsunami === 1,
+      url: eq.properties.url,
+    }))
+    .sort((a, b) => b.time - a.time);
+}
+
 /**
  * Get magnitude-based size — linear mapping from [4.5, 9.0] to [min, max] px
  */
@@ -203,33 +287,78 @@ function getEarthquakeRadius(magnitude: number): number {
 
 
 /**
- * Level-of-detail filtering based on zoom level
+ * Smallest magnitude drawn at a zoom level — the breakpoint at or below it
+ */
+function getLodMinMagnitude(zoom: number): number {
+  const breakpoints = Object.entries(CONFIG.styles.earthquakes.lodFiltering.zoomBreakpoints)
+    .map(([breakpointZoom, magnitude]) => [Number(breakpointZoom), magnitude])
+    .sort((a, b) => a[0] - b[0]);
+
+  let minMagnitude = breakpoints[0]?.[1] ?? 0;
+  breakpoints.forEach(([breakpointZoom, magnitude]) => {
+    if (zoom >= breakpointZoom) minMagnitude = magnitude;
+  });
+  return minMagnitude;
+}
+
+/**
+ * Whether a point lies in the (padded) view. Bounds wider than the world
+ * cover every longitude; otherwise longitudes are wrapped into the view's span.
+ */
+function isInView(longitude: number, latitude: number, bounds: EarthquakeViewBounds, padding: number): boolean {
+  const [west, south, east, north] = bounds;
+  if (latitude < south - padding || latitude > north + padding) return false;
+  if (east - west + 2 * padding >= 360) return true;
+
+  const wrapped = ((longitude - (west - padding)) % 360 + 360) % 360;
+  return wrapped <= east - west + 2 * padding;
+}
+
+/**
+ * Level-of-detail filtering — the magnitude floor drops as the map zooms in,
+ * only events in the viewport are kept, and at most `maxRendered` of them
+ * (largest first, as the cache is sorted). A smaller view holds fewer
+ * events, so small quakes fill in as you zoom towards them.
  */
-function getFilteredEarthquakes(zoom: number, earthquakes: USGSEarthquakeFeature[]): USGSEarthquakeFeature[] {
-  if (!CONFIG.styles.earthquakes.lodFiltering.enabled) {
-    return earthquakes;
+function getFilteredEarthquakes(
+  zoom: number,
+  earthquakes: USGSEarthquakeFeature[],
+  minMagnitude: number,
+  bounds: EarthquakeViewBounds | null
+): USGSEarthquakeFeature[] {
+  const { lodFiltering } = CONFIG.styles.earthquakes;
+  if (!lodFiltering.enabled) {
+    return earthquakes.filter(eq => eq.properties.mag >= minMagnitude);
   }
-  
-  let minMagnitude = 0;
-  const breakpoints = CONFIG.styles.earthquakes.lodFiltering.zoomBreakpoints;
-  
-  // Apply zoom-based filtering for performance
-  if (zoom < 2) {
-    minMagnitude = breakpoints[2] || CONFIG.styles.earthquakes.significantThreshold;
-  } else if (zoom < 4) {
-    minMagnitude = breakpoints[4] || 2.0;
-  } else if (zoom < 6) {
-    minMagnitude = breakpoints[6] || 1.0;
+
+  const floor = Math.max(minMagnitude, getLodMinMagnitude(zoom));
+  const filtered: USGSEarthquakeFeature[] = [];
+  for (const eq of earthquakes) {
+    if (eq.properties.mag < floor) break; // sorted by magnitude, nothing smaller qualifies
+    const [longitude, latitude] = eq.geometry.coordinates;
+    if (bounds && !isInView(longitude, latitude, bounds, lodFiltering.viewportPaddingDegrees)) continue;
+    filtered.push(eq);
+    if (filtered.length >= lodFiltering.maxRendered) break;
   }
-  // else show all earthquakes
-  
-  return earthquakes.filter(eq => eq.properties.mag >= minMagnitude);
+  return filtered;
 }
 
 /**
  * Create earthquake visualization layers
  */
-export function createEarthquakeLayers(_currentTime: Date, currentZoom: number = 2, pulsePhase: number = 0): Layer[] {
+export function createEarthquakeLayers(
+  _currentTime: Date,
+  currentZoom: number = 2,
+  pulsePhase: number = 0,
+  options: EarthquakeLayerOptions = {}
+): Layer[] {
+  const {
+    minMagnitude = CONFIG.styles.earthquakes.minMagnitudeDisplay,
+    bounds = null,
+    depth3D = false,
+    onEarthquakeClick,
+    shakeMapContours = [],
+  } = options;
   const layers: Layer[] = [];
   const { earthquakes, error } = earthquakeDataCache;
 
@@ -251,19 +380,72 @@ export function createEarthquakeLayers(_currentTime: Date, currentZoom: number =
     return layers;
   }
 
-  const filteredEarthquakes = getFilteredEarthquakes(currentZoom, earthquakes);
+  // ShakeMap intensity contours, under the events and labelled with their MMI
+  if (shakeMapContours.length > 0) {
+    const { shakemapLineWidth, shakemapLabelSize } = CONFIG.styles.earthquakes.detail;
+    layers.push(new PathLayer({
+      id: 'earthquake-shakemap-contours',
+      data: shakeMapContours,
+      getPath: (d: ShakeMapContour) => d.path,
+      getColor: (d: ShakeMapContour) => d.color,
+      getWidth: shakemapLineWidth,
+      widthUnits: 'pixels',
+      pickable: false,
+    }));
+
+    layers.push(new TextLayer({
+      id: 'earthquake-shakemap-labels',
+      data: shakeMapContours,
+      getPosition: (d: ShakeMapContour) => d.path[Math.floor(d.path.length / 2)],
+      getText: (d: ShakeMapContour) => formatIntensity(d.mmi),
+      getSize: shakemapLabelSize,
+      getColor: (d: ShakeMapContour) => d.color,
+      getTextAnchor: 'middle',
+      getAlignmentBaseline: 'center',
+      fontWeight: 'bold',
+      outlineWidth: 2,
+      outlineColor: [0, 0, 0, 200],
+      fontSettings: { sdf: true },
+      characterSet: 'auto',
+      pickable: false,
+    }));
+  }
+
+  const filteredEarthquakes = getFilteredEarthquakes(currentZoom, earthquakes, minMagnitude, bounds);
+
+  const { depthExaggeration, dropLineColor } = CONFIG.styles.earthquakes.depthView;
+
+  // Hypocentre below the surface in 3D, epicentre on it otherwise (depth is km, deck.gl z is metres)
+  const getPosition = (d: USGSEarthquakeFeature): [number, number, number] => [
+    d.geometry.coordinates[0],
+    d.geometry.coordinates[1],
+    depth3D ? -Math.max(0, d.geometry.coordinates[2] ?? 0) * 1000 * depthExaggeration : 0,
+  ];
 
   if (filteredEarthquakes.length > 0) {
     const PHI = 1.618;
+    const getDepthColor = (d: USGSEarthquakeFeature) => getDepthClass(d.geometry.coordinates[2] ?? 0).color;
+
+    // Drop lines from the epicentre down to the hypocentre
+    if (depth3D) {
+      layers.push(new LineLayer({
+        id: 'earthquake-depth-lines',
+        data: filteredEarthquakes,
+        getSourcePosition: (d: USGSEarthquakeFeature) => [d.geometry.coordinates[0], d.geometry.coordinates[1], 0],
+        getTargetPosition: getPosition,
+        getColor: dropLineColor,
+        getWidth: 1,
+        widthUnits: 'pixels',
+        pickable: false,
+      }));
+    }
 
     // Dark halo — semi-transparent black disc behind the pulse for contrast on any terrain
     layers.push(new ScatterplotLayer({
       id: 'earthquake-dark-halo',
       data: filteredEarthquakes,
-      getPosition: (d: USGSEarthquakeFeature) => [
-        d.geometry.coordinates[0],
-        d.geometry.coordinates[1]
-      ],
+      getPosition,
+      billboard: depth3D,
       getRadius: (d: USGSEarthquakeFeature) => getEarthquakeRadius(d.properties.mag) * 2.0,
       radiusUnits: 'pixels',
       filled: true,
@@ -284,15 +466,13 @@ export function createEarthquakeLayers(_currentTime: Date, currentZoom: number =
       layers.push(new ScatterplotLayer({
         id: `earthquake-pulse-ring-${i}`,
         data: filteredEarthquakes,
-        getPosition: (d: USGSEarthquakeFeature) => [
-          d.geometry.coordinates[0],
-          d.geometry.coordinates[1]
-        ],
+        getPosition,
+        billboard: depth3D,
         getRadius: (d: USGSEarthquakeFeature) => getEarthquakeRadius(d.properties.mag),
         radiusScale: ringScale,
         radiusUnits: 'pixels',
         getFillColor: [0, 0, 0, 0],
-        getLineColor: EQ_LINE_COLOR,
+        getLineColor: getDepthColor,
         opacity: ringOpacity,
         getLineWidth: (d: USGSEarthquakeFeature) => baseWidth * magLineWidthFactor(d.properties.mag),
         stroked: true,
@@ -306,15 +486,13 @@ export function createEarthquakeLayers(_currentTime: Date, currentZoom: number =
     layers.push(new ScatterplotLayer({
       id: 'earthquake-epicenter-dots',
       data: filteredEarthquakes,
-      getPosition: (d: USGSEarthquakeFeature) => [
-        d.geometry.coordinates[0],
-        d.geometry.coordinates[1]
-      ],
+      getPosition,
+      billboard: depth3D,
       getRadius: (d: USGSEarthquakeFeature) => Math.max(2, getEarthquakeRadius(d.properties.mag) * EQ_EPICENTER_SCALE),
       radiusUnits: 'pixels',
       filled: true,
       stroked: false,
-      getFillColor: EQ_EPICENTER_COLOR,
+      getFillColor: getDepthColor,
       pickable: false,
     }));
 
@@ -322,15 +500,57 @@ export function createEarthquakeLayers(_currentTime: Date, currentZoom: number =
     layers.push(new ScatterplotLayer({
       id: CONFIG.layerIds.earthquakePositions,
       data: filteredEarthquakes,
-      getPosition: (d: USGSEarthquakeFeature) => [
-        d.geometry.coordinates[0],
-        d.geometry.coordinates[1]
-      ],
+      getPosition,
+      billboard: depth3D,
       getRadius: (d: USGSEarthquakeFeature) => getEarthquakeRadius(d.properties.mag) * 2,
       radiusUnits: 'pixels',
       filled: true,
       getFillColor: [0, 0, 0, 0],
       pickable: true,
+      onClick: onEarthquakeClick,
+    }));
+  }
+
+  // Alert events — always drawn, whatever the magnitude, zoom or viewport
+  const alertEarthquakes = earthquakes.filter(eq => isAlertEvent(eq.properties.alert, eq.properties.tsunami));
+  if (alertEarthquakes.length > 0) {
+    const { alerts } = CONFIG.styles.earthquakes;
+    const getAlertMarkerColor = (d: USGSEarthquakeFeature) => getAlertColor(getPagerLevel(d.properties.alert));
+    const now = performance.now();
+
+    for (let i = 0; i < alerts.ringCount; i++) {
+      layers.push(new ScatterplotLayer({
+        id: `earthquake-alert-ring-${i}`,
+        data: alertEarthquakes,
+        getPosition,
+        billboard: depth3D,
+        getRadius: alerts.markerRadiusPixels,
+        radiusUnits: 'pixels',
+        ...getAlertRingAnimation(i, now),
+        getLineColor: getAlertMarkerColor,
+        getLineWidth: 2,
+        lineWidthUnits: 'pixels',
+        stroked: true,
+        filled: false,
+        pickable: false,
+      }));
+    }
+
+    layers.push(new ScatterplotLayer({
+      id: CONFIG.layerIds.earthquakeAlertMarkers,
+      data: alertEarthquakes,
+      getPosition,
+      billboard: depth3D,
+      getRadius: alerts.markerRadiusPixels,
+      radiusUnits: 'pixels',
+      getFillColor: (d: USGSEarthquakeFeature) => [...getAlertMarkerColor(d), 70] as [number, number, number, number],
+      getLineColor: getAlertMarkerColor,
+      getLineWidth: alerts.markerLineWidthPixels,
+      lineWidthUnits: 'pixels',
+      stroked: true,
+      filled: true,
+      pickable: true,
+      onClick: onEarthquakeClick,
     }));
   }
 
@@ -0,0 +1,290 @@
+/**
+ * Eclipse Layer — the selected solar or lunar eclipse.
+ *
+ * Solar: partial-visibility region shaded by maximum magnitude, the path of
+ * totality/annularity, and its centre line with the time at each point.
+ * Lunar: where the Moon is above the horizon at peak, with outlines at the
+ * beginning and end of the eclipse.
+ *
+ * Geometry is fixed for a given eclipse and cached by id.
+ */
+
+import { BitmapLayer, GeoJsonLayer, PathLayer, ScatterplotLayer, TextLayer } from '@deck.gl/layers';
+import { COORDINATE_SYSTEM, type Layer } from '@deck.gl/core';
+import type { Feature } from 'geojson';
+import {
+  getEclipseCenterline, getEclipsePathPolygons, getPartialEclipseGrid, splitAtAntimeridian,
+  type CenterlinePoint,
+} from '../utils/eclipseGeometry';
+import { getMoonVisibilityPolygon, getSublunarPoint } from '../utils/nightSideGeometry';
+import {
+  getCityEclipseContacts, type CityEclipseContacts, type EclipseSummary,
+} from '../services/eclipseService';
+import type { City } from '../services/simpleCityService';
+import { CONFIG } from '../config';
+
+export interface EclipseCityContacts {
+  city: City;
+  contacts: CityEclipseContacts | null;
+}
+
+/** Picked object for every interactive eclipse layer */
+export interface EclipseDatum {
+  eclipse: EclipseSummary;
+  position: [number, number];
+  time: Date;
+  widthKm: number | null;   // central path width at this point
+  magnitude: number | null; // greatest partial magnitude, partial solar eclipses
+  cities: EclipseCityContacts[];
+}
+
+interface EclipseGeometry {
+  centerline: CenterlinePoint[];
+  pathPolygons: Feature[];
+  partialCanvas: HTMLCanvasElement | null;
+  greatest: { position: [number, number]; magnitude: number | null };
+  lunarRegions: { peak: Feature; begin: Feature; end: Feature } | null;
+}
+
+const { eclipse: eclipseStyle } = CONFIG.styles;
+const geometryCache = new Map<string, EclipseGeometry>();
+
+function renderPartialCanvas(grid: ReturnType<typeof getPartialEclipseGrid>): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = grid.width;
+  canvas.height = grid.height;
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.createImageData(grid.width, grid.height);
+  const [r, g, b] = eclipseStyle.partialColor;
+
+  for (let i = 0; i < grid.magnitude.length; i++) {
+    const mag = grid.magnitude[i];
+    if (mag <= 0) continue;
+    image.data[i * 4] = r;
+    image.data[i * 4 + 1] = g;
+    image.data[i * 4 + 2] = b;
+    // Floor keeps the faint outer edge of the region visible
+    image.data[i * 4 + 3] = Math.round(eclipseStyle.partialMaxAlpha * (0.15 + 0.85 * mag));
+  }
+
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+}
+
+function buildSolarGeometry(eclipse: EclipseSummary): EclipseGeometry {
+  const { searchWindowMinutes, centerlineStepMinutes, gridStepMinutes, gridResolutionDegrees } = eclipseStyle;
+
+  const centerline = eclipse.peakPosition
+    ? getEclipseCenterline(eclipse.peak, searchWindowMinutes, centerlineStepMinutes)
+    : [];
+  const pathPolygons: Feature[] = getEclipsePathPolygons(centerline).map(ring => ({
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: [ring] },
+    properties: {},
+  }));
+
+  const grid = getPartialEclipseGrid(eclipse.peak, searchWindowMinutes, gridStepMinutes, gridResolutionDegrees);
+
+  return {
+    centerline,
+    pathPolygons,
+    partialCanvas: renderPartialCanvas(grid),
+    greatest: eclipse.peakPosition
+      ? { position: eclipse.peakPosition, magnitude: null }
+      : grid.greatest,
+    lunarRegions: null,
+  };
+}
+
+function buildLunarGeometry(eclipse: EclipseSummary): EclipseGeometry {
+  const { penumbral, partial } = eclipse.semiDurations ?? { penumbral: 0, partial: 0 };
+  const outer = partial > 0 ? partial : penumbral;
+  const at = (minutes: number) => new Date(eclipse.peak.getTime() + minutes * 60000);
+
+  return {
+    centerline: [],
+    pathPolygons: [],
+    partialCanvas: null,
+    greatest: { position: getSublunarPoint(eclipse.peak).point, magnitude: null },
+    lunarRegions: {
+      peak: getMoonVisibilityPolygon(eclipse.peak, 1),
+      begin: getMoonVisibilityPolygon(at(-outer), 1),
+      end: getMoonVisibilityPolygon(at(outer), 1),
+    },
+  };
+}
+
+function getEclipseGeometry(eclipse: EclipseSummary): EclipseGeometry {
+  const cached = geometryCache.get(eclipse.id);
+  if (cached) return cached;
+
+  const geometry = eclipse.body === 'solar'
+    ? buildSolarGeometry(eclipse)
+    : buildLunarGeometry(eclipse);
+
+  // Only the selected eclipse is ever drawn — keep the cache small
+  if (geometryCache.size >= eclipseStyle.upcomingCount) geometryCache.clear();
+  geometryCache.set(eclipse.id, geometry);
+  return geometry;
+}
+
+function formatUtcTime(date: Date): string {
+  return `${date.toISOString().slice(11, 16)} UTC`;
+}
+
+// ── Layer factory ────────────────────────────────────────────────────
+
+export function createEclipseLayers(eclipse: EclipseSummary, cities: City[]): Layer[] {
+  const geometry = getEclipseGeometry(eclipse);
+  const layers: Layer[] = [];
+
+  const cityContacts: EclipseCityContacts[] = cities.map(city => ({
+    city,
+    contacts: getCityEclipseContacts(eclipse, city),
+  }));
+  const toDatum = (point: { position: [number, number]; time: Date; widthKm?: number | null }, magnitude: number | null = null): EclipseDatum => ({
+    eclipse,
+    position: point.position,
+    time: point.time,
+    widthKm: point.widthKm ?? null,
+    magnitude,
+    cities: cityContacts,
+  });
+  const greatestDatum = toDatum({ position: geometry.greatest.position, time: eclipse.peak }, geometry.greatest.magnitude);
+
+  if (geometry.partialCanvas) {
+    layers.push(
+      new BitmapLayer({
+        id: 'eclipse-partial-region',
+        image: geometry.partialCanvas,
+        bounds: [-180, -85, 180, 85],
+        _imageCoordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+        pickable: false,
+        parameters: { depthTest: false },
+      })
+    );
+  }
+
+  if (geometry.pathPolygons.length > 0) {
+    layers.push(
+      new GeoJsonLayer({
+        id: 'eclipse-path',
+        data: geometry.pathPolygons,
+        filled: true,
+        stroked: true,
+        getFillColor: eclipse.kind === 'annular' ? eclipseStyle.annularColor : eclipseStyle.totalColor,
+        getLineColor: eclipseStyle.pathLineColor,
+        getLineWidth: 1,
+        lineWidthUnits: 'pixels',
+        pickable: false,
+        parameters: { depthTest: false },
+      })
+    );
+  }
+
+  if (geometry.centerline.length > 1) {
+    const runs = splitAtAntimeridian(geometry.centerline, p => p.position[0]);
+    layers.push(
+      new PathLayer({
+        id: 'eclipse-centerline',
+        data: runs.map(run => ({ path: run.map(p => p.position) })),
+        getPath: (d: any) => d.path,
+        getColor: eclipseStyle.centerlineColor,
+        getWidth: 1.5,
+        widthUnits: 'pixels',
+        pickable: false,
+        parameters: { depthTest: false },
+      })
+    );
+
+    // One pickable dot per sampled minute — hover reads the centre-line time
+    layers.push(
+      new ScatterplotLayer({
+        id: 'eclipse-centerline-points',
+        data: geometry.centerline.map(p => toDatum(p)),
+        getPosition: (d: EclipseDatum) => d.position,
+        getRadius: 2,
+        radiusUnits: 'pixels',
+        getFillColor: eclipseStyle.centerlineColor,
+        pickable: true,
+        parameters: { depthTest: false },
+      })
+    );
+
+    // Label the first sample in each interval, aligned to round UTC times
+    const intervalMs = eclipseStyle.labelIntervalMinutes * 60000;
+    const labelled = geometry.centerline.filter((p, i, all) =>
+      i > 0 && Math.floor(p.time.getTime() / intervalMs) !== Math.floor(all[i - 1].time.getTime() / intervalMs)
+    );
+    layers.push(
+      new TextLayer({
+        id: 'eclipse-time-labels',
+        data: labelled,
+        getPosition: (d: CenterlinePoint) => d.position,
+        getText: (d: CenterlinePoint) => formatUtcTime(d.time),
+        getSize: 11,
+        getColor: [255, 255, 255, 230],
+        getTextAnchor: 'start',
+        getAlignmentBaseline: 'center',
+        getPixelOffset: [8, 0],
+        fontFamily: CONFIG.styles.cities.fontFamily,
+        background: true,
+        getBackgroundColor: [15, 23, 42, 180],
+        backgroundPadding: [4, 2],
+        pickable: false,
+        parameters: { depthTest: false },
+      })
+    );
+  }
+
+  if (geometry.lunarRegions) {
+    const { peak, begin, end } = geometry.lunarRegions;
+    layers.push(
+      new GeoJsonLayer({
+        id: 'eclipse-lunar-visibility',
+        data: [{ ...peak, properties: greatestDatum }],
+        filled: true,
+        stroked: true,
+        getFillColor: eclipseStyle.lunarFillColor,
+        getLineColor: eclipseStyle.lunarLineColor,
+        getLineWidth: 1.5,
+        lineWidthUnits: 'pixels',
+        pickable: true,
+        parameters: { depthTest: false },
+      }),
+      new GeoJsonLayer({
+        id: 'eclipse-lunar-contacts',
+        data: [begin, end],
+        filled: false,
+        stroked: true,
+        getLineColor: eclipseStyle.lunarLineColor,
+        getLineWidth: 1,
+        lineWidthUnits: 'pixels',
+        opacity: 0.5,
+        pickable: false,
+        parameters: { depthTest: false },
+      })
+    );
+  }
+
+  // Point of greatest eclipse (solar) or Moon overhead at peak (lunar)
+  layers.push(
+    new ScatterplotLayer({
+      id: 'eclipse-greatest',
+      data: [greatestDatum],
+      getPosition: (d: EclipseDatum) => d.position,
+      getRadius: 6,
+      radiusUnits: 'pixels',
+      getFillColor: [0, 0, 0, 0],
+      getLineColor: eclipseStyle.markerColor,
+      getLineWidth: 2,
+      lineWidthUnits: 'pixels',
+      stroked: true,
+      filled: true,
+      pickable: true,
+      parameters: { depthTest: false },
+    })
+  );
+
+  return layers;
+}
@@ -1,13 +1,21 @@
 /**
- * ISS Tracking Layer using the "Where the ISS at?" API
- * Real-time tracking with trajectory display and information labels
+ * ISS Tracking Layer — orbit propagated locally with SGP4
+ * Position and trajectory for any instant (live or time travel) from the
+ * latest TLE, with no per-update network calls. The TLE comes through the
+ * satellite catalog like any tracked satellite; this layer adds the
+ * station-only extras (footprint, passes, orbital sunrise and sunset).
  */
 
-import { IconLayer, PathLayer, TextLayer } from '@deck.gl/layers';
+import { IconLayer, PathLayer, PolygonLayer, ScatterplotLayer, TextLayer } from '@deck.gl/layers';
 import { CONFIG } from '../config';
+import { getSmallCirclePolygons, getSubsolarPoint } from '../utils/nightSideGeometry';
+import {
+  getOrbitalPeriodMinutes, propagateSatellite, propagateTrack, type SatelliteState, type TleRecord,
+} from '../services/satelliteOrbitService';
+import { getSatelliteError, getSatelliteTle } from './SatelliteLayer';
 
-// ISS API interfaces
-interface ISSPosition {
+// ISS position interfaces (same shape as the "Where the ISS at?" API)
+export interface ISSPosition {
   name: string;
   id: number;
   latitude: number;
@@ -23,106 +31,200 @@ interface ISSPosition {
   units: string;
 }
 
-interface ISSTrajectoryPoint {
+export interface ISSTrajectoryPoint {
   latitude: number;
   longitude: number;
   altitude: number;
   velocity: number;
+  visibility: string;
+  timestamp: number;
+}
+
+/** Orbital sunrise or sunset — the ISS leaving or entering Earth's shadow */
+export interface ISSOrbitalEvent {
+  type: 'sunrise' | 'sunset';
+  latitude: number;
+  longitude: number;
   timestamp: number;
 }
 
-interface ISSLayerData {
-  currentPosition: ISSPosition | null;
-  trajectory: ISSTrajectoryPoint[];
-  lastUpdate: Date | null;
-  error: string | null;
+/** Time ticks along the ground track */
+export interface ISSTrajectoryTick {
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+  orbit: number; // whole orbits away from now, 0 for the current one
 }
 
-// ISS data cache
-let issDataCache: ISSLayerData = {
-  currentPosition: null,
-  trajectory: [],
-  lastUpdate: null,
-  error: null,
+/** How much of the ground track to draw and how to label it */
+export interface ISSTrackSettings {
+  pastOrbits: number;
+  futureOrbits: number;
+  showTicks: boolean;
+  tickTimeZone: 'utc' | 'local';
+}
+
+export interface ISSLayerOptions {
+  showFootprint?: boolean;
+  highlightedPass?: { start: number; end: number } | null; // ms timestamps
+  trackSettings?: ISSTrackSettings;
+}
+
+export const DEFAULT_ISS_TRACK_SETTINGS: ISSTrackSettings = {
+  pastOrbits: CONFIG.styles.iss.trajectoryPastOrbits,
+  futureOrbits: CONFIG.styles.iss.trajectoryFutureOrbits,
+  showTicks: true,
+  tickTimeZone: 'utc',
 };
 
 // Generate Space station SVG icon data URL from config
 const SPACE_STATION_ICON = `data:image/svg+xml;base64,${btoa(CONFIG.styles.iss.icon.svgData)}`;
 
+const UNIX_EPOCH_JULIAN_DAY = 2440587.5;
+const EARTH_RADIUS_KM = 6378.137;
+
+function toTrajectoryPoint(state: SatelliteState): ISSTrajectoryPoint {
+  return {
+    latitude: state.latitude,
+    longitude: state.longitude,
+    altitude: state.altitude,
+    velocity: state.velocity,
+    visibility: state.sunlit ? 'daylight' : 'eclipsed',
+    timestamp: Math.floor(state.time.getTime() / 1000),
+  };
+}
+
 /**
- * Fetch current ISS position from API
+ * ISS position at an instant, or null before the TLE has loaded
  */
-async function fetchISSPosition(): Promise<ISSPosition> {
-  const response = await fetch(`${CONFIG.styles.iss.apiBaseUrl}${CONFIG.styles.iss.satelliteId}`);
-  if (!response.ok) {
-    throw new Error(`ISS API error: ${response.status} ${response.statusText}`);
-  }
-  return await response.json();
+export function getISSPosition(time: Date): ISSPosition | null {
+  const tle = getSatelliteTle(CONFIG.satellites.issNoradId);
+  if (!tle) return null;
+
+  const state = propagateSatellite(tle, time);
+  if (!state) return null;
+
+  const [solarLon, solarLat] = getSubsolarPoint(time);
+  return {
+    name: 'iss',
+    id: CONFIG.satellites.issNoradId,
+    ...toTrajectoryPoint(state),
+    footprint: state.footprintKm,
+    daynum: time.getTime() / 86400000 + UNIX_EPOCH_JULIAN_DAY,
+    solar_lat: solarLat,
+    solar_lon: solarLon,
+    units: 'kilometers',
+  };
 }
 
 /**
- * Fetch ISS trajectory for the next 90 minutes
+ * ISS ground track split into whole orbits around `currentTime` — from
+ * `pastOrbits` back to `futureOrbits` ahead. Neighbouring orbits share their
+ * boundary point; `orbit` counts whole orbits away from now.
  */
-async function fetchISSTrajectory(): Promise<ISSTrajectoryPoint[]> {
-  const currentTime = Math.floor(Date.now() / 1000);
-  const endTime = currentTime + (CONFIG.styles.iss.trajectoryDurationMinutes * 60); // Duration from config
-  
-  // Generate timestamps every interval from config to avoid API limits
-  const timestamps: number[] = [];
-  for (let t = currentTime; t <= endTime; t += CONFIG.styles.iss.trajectoryPointIntervalSeconds) {
-    timestamps.push(t);
-  }
-  
-  const timestampQuery = timestamps.join(',');
+export function getISSOrbits(currentTime: Date, pastOrbits: number, futureOrbits: number): { orbit: number; trajectory: ISSTrajectoryPoint[] }[] {
+  const tle = getSatelliteTle(CONFIG.satellites.issNoradId);
+  if (!tle) return [];
 
-  const url = `${CONFIG.styles.iss.apiBaseUrl}${CONFIG.styles.iss.satelliteId}/positions?timestamps=${timestampQuery}`;
-  const response = await fetch(url);
-  
-  if (!response.ok) {
-    await response.text().catch(() => 'Unable to read error response');
-    throw new Error(`ISS trajectory API error: ${response.status} ${response.statusText} (${timestamps.length} timestamps requested)`);
+  const periodMs = getOrbitalPeriodMinutes(tle) * 60000;
+  const { trajectoryPointIntervalSeconds } = CONFIG.styles.iss;
+  const orbits: { orbit: number; trajectory: ISSTrajectoryPoint[] }[] = [];
+
+  for (let k = -pastOrbits; k < futureOrbits; k++) {
+    const start = new Date(currentTime.getTime() + k * periodMs);
+    const end = new Date(start.getTime() + periodMs);
+    const trajectory = propagateTrack(tle, start, end, trajectoryPointIntervalSeconds).map(toTrajectoryPoint);
+    // The last sample rarely lands on the boundary — close the gap to the next orbit
+    const boundary = propagateSatellite(tle, end);
+    if (boundary && trajectory[trajectory.length - 1]?.timestamp !== Math.floor(end.getTime() / 1000)) {
+      trajectory.push(toTrajectoryPoint(boundary));
+    }
+    orbits.push({ orbit: k < 0 ? -k - 1 : k, trajectory });
   }
-  
-  return await response.json();
+
+  return orbits;
 }
 
 /**
- * Update ISS data from API
+ * Ticks every `intervalMinutes` on the clock between two instants
  */
-async function updateISSData(): Promise<void> {
-  try {
-    // Fetch both current position and trajectory
-    const [currentPosition, trajectory] = await Promise.all([
-      fetchISSPosition(),
-      fetchISSTrajectory()
-    ]);
-    
-    issDataCache = {
-      currentPosition,
-      trajectory,
-      lastUpdate: new Date(),
-      error: null,
-    };
-    
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    issDataCache.error = errorMessage;
+function getTrajectoryTicks(tle: TleRecord, currentTime: Date, start: Date, end: Date): ISSTrajectoryTick[] {
+  const intervalMs = CONFIG.styles.iss.trajectoryTicks.intervalMinutes * 60000;
+  const periodMs = getOrbitalPeriodMinutes(tle) * 60000;
+  const ticks: ISSTrajectoryTick[] = [];
+
+  for (let t = Math.ceil(start.getTime() / intervalMs) * intervalMs; t <= end.getTime(); t += intervalMs) {
+    const state = propagateSatellite(tle, new Date(t));
+    if (!state) continue;
+    const offset = t - currentTime.getTime();
+    ticks.push({
+      latitude: state.latitude,
+      longitude: state.longitude,
+      timestamp: Math.floor(t / 1000),
+      orbit: offset < 0 ? Math.floor(-offset / periodMs) : Math.floor(offset / periodMs),
+    });
   }
+
+  return ticks;
 }
 
 /**
- * ISS Manager class using BaseDataManager
+ * Opacity factor for something `orbit` whole orbits away from now
  */
-import { BaseDataManager } from '../utils/BaseDataManager';
-
-export class ISSManager extends BaseDataManager<ISSLayerData> {
-  constructor() {
-    super({
-      updateFunction: updateISSData,
-      updateIntervalMs: CONFIG.styles.iss.updateIntervalMs,
-      getDataCache: () => issDataCache
-    });
+function getOrbitFade(orbit: number): number {
+  return Math.pow(CONFIG.styles.iss.trajectoryOrbitFade, orbit);
+}
+
+/**
+ * Bisect between two track points on either side of the shadow boundary
+ */
+function findShadowCrossing(tle: TleRecord, before: ISSTrajectoryPoint, after: ISSTrajectoryPoint): ISSTrajectoryPoint {
+  const precisionMs = CONFIG.styles.iss.orbitalEvents.crossingPrecisionSeconds * 1000;
+  const sunlitBefore = before.visibility === 'daylight';
+  let lo = before.timestamp * 1000;
+  let hi = after.timestamp * 1000;
+
+  while (hi - lo > precisionMs) {
+    const mid = (lo + hi) / 2;
+    const state = propagateSatellite(tle, new Date(mid));
+    if (!state) break;
+    if (state.sunlit === sunlitBefore) lo = mid;
+    else hi = mid;
   }
+
+  const state = propagateSatellite(tle, new Date(hi));
+  return state ? toTrajectoryPoint(state) : after;
+}
+
+/**
+ * Split a track into runs of constant sunlight. Neighbouring runs share the
+ * crossing point so the drawn path stays continuous, and every crossing is
+ * reported as an orbital sunrise or sunset.
+ */
+function splitTrajectoryBySunlight(tle: TleRecord, trajectory: ISSTrajectoryPoint[]) {
+  const runs: ISSTrajectoryPoint[][] = [];
+  const events: ISSOrbitalEvent[] = [];
+  let run: ISSTrajectoryPoint[] = [];
+
+  trajectory.forEach((point, i) => {
+    const prev = trajectory[i - 1];
+    if (prev && prev.visibility !== point.visibility) {
+      const crossing = findShadowCrossing(tle, prev, point);
+      run.push(crossing);
+      runs.push(run);
+      run = [crossing];
+      events.push({
+        type: point.visibility === 'eclipsed' ? 'sunset' : 'sunrise',
+        latitude: crossing.latitude,
+        longitude: crossing.longitude,
+        timestamp: crossing.timestamp,
+      });
+    }
+    run.push(point);
+  });
+  if (run.length > 1) runs.push(run);
+
+  return { runs, events };
 }
 
 /**
@@ -170,12 +272,38 @@ function processTrajectoryForDateline(trajectory: ISSTrajectoryPoint[]): number[
   return segments;
 }
 
+/**
+ * Local HH:MM for an orbital event label
+ */
+function formatEventTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * HH:MM for a track tick — UTC carries a "Z" so it can't be mistaken for local time
+ */
+function formatTickTime(timestamp: number, timeZone: ISSTrackSettings['tickTimeZone']): string {
+  if (timeZone === 'local') return formatEventTime(timestamp);
+  const date = new Date(timestamp * 1000);
+  return `${String(date.getUTCHours()).padStart(2, '0')}:${String(date.getUTCMinutes()).padStart(2, '0')}Z`;
+}
+
 /**
  * Create ISS tracking layers
  */
-export function createISSLayers(currentTime: Date, onISSClick?: (info: any) => void): any[] {
+export function createISSLayers(currentTime: Date, onISSClick?: (info: any) => void, options: ISSLayerOptions = {}): any[] {
+  const { showFootprint = false, highlightedPass = null, trackSettings = DEFAULT_ISS_TRACK_SETTINGS } = options;
   const layers: any[] = [];
-  const { currentPosition, trajectory, error } = issDataCache;
+  const tle = getSatelliteTle(CONFIG.satellites.issNoradId);
+  const error = getSatelliteError(CONFIG.satellites.issNoradId);
+  const currentPosition = getISSPosition(currentTime);
+  const orbits = getISSOrbits(currentTime, trackSettings.pastOrbits, trackSettings.futureOrbits);
+  const trajectory = orbits.flatMap(({ trajectory }, i) => i === 0 ? trajectory : trajectory.slice(1));
+  const sunlightByOrbit = orbits.map(({ orbit, trajectory }) => ({
+    orbit,
+    ...(tle ? splitTrajectoryBySunlight(tle, trajectory) : { runs: [], events: [] }),
+  }));
+  const events = sunlightByOrbit.flatMap(({ events }) => events);
 
   // If there's an error, show error layer
   if (error) {
@@ -196,32 +324,184 @@ export function createISSLayers(currentTime: Date, onISSClick?: (info: any) => v
     return layers;
   }
 
-  // ISS trajectory path with dateline crossing handling (render first - below icon)
+  // Visibility footprint (bottom-most) — footprint is the circle's diameter along the ground
+  if (showFootprint && currentPosition) {
+    const radiusDegrees = (currentPosition.footprint / 2 / EARTH_RADIUS_KM) * (180 / Math.PI);
+    const rings = getSmallCirclePolygons(
+      [currentPosition.longitude, currentPosition.latitude],
+      radiusDegrees,
+      CONFIG.styles.iss.footprintSteps
+    );
+
+    layers.push(new PolygonLayer({
+      id: 'iss-footprint',
+      data: rings.map(polygon => ({ polygon })),
+      getPolygon: (d: any) => d.polygon,
+      getFillColor: CONFIG.styles.iss.footprintFillColor,
+      getLineColor: CONFIG.styles.iss.footprintLineColor,
+      getLineWidth: CONFIG.styles.iss.footprintLineWidth,
+      lineWidthUnits: 'pixels',
+      stroked: true,
+      filled: true,
+      pickable: false,
+      parameters: { depthTest: false },
+      updateTriggers: {
+        getPolygon: currentTime.getTime(),
+      },
+    }));
+  }
+
+  // ISS trajectory path, split by orbit, sunlight and at the dateline (render first - below icon)
   if (trajectory.length > 1) {
-    const trajectorySegments = processTrajectoryForDateline(trajectory);
+    const trajectorySegments = sunlightByOrbit.flatMap(({ orbit, runs }) => runs.flatMap(run =>
+      processTrajectoryForDateline(run).map(path => ({ path, orbit, sunlit: run[0].visibility === 'daylight' }))
+    ));
     
     trajectorySegments.forEach((segment, index) => {
       layers.push(new PathLayer({
         id: `iss-trajectory-${index}`,
-        data: [{ path: segment }],
+        data: [segment],
         getPath: (d: any) => d.path,
-        getColor: CONFIG.styles.iss.trajectoryColor,
+        getColor: segment.sunlit ? CONFIG.styles.iss.trajectoryColor : CONFIG.styles.iss.trajectoryEclipsedColor,
         getWidth: CONFIG.styles.iss.trajectoryWidth,
         widthUnits: 'pixels',
         widthMinPixels: CONFIG.styles.iss.trajectoryWidthMin,
         widthMaxPixels: CONFIG.styles.iss.trajectoryWidthMax,
-        opacity: CONFIG.styles.iss.trajectoryOpacity,
+        opacity: CONFIG.styles.iss.trajectoryOpacity * getOrbitFade(segment.orbit),
         pickable: false,
         parameters: {
           depthTest: false,
         },
         updateTriggers: {
           getPath: currentTime.getTime(),
+          getColor: segment.sunlit,
         },
       }));
     });
   }
 
+  // Time ticks along the track, faded with their orbit
+  if (trackSettings.showTicks && tle && trajectory.length > 1) {
+    const { trajectoryTicks } = CONFIG.styles.iss;
+    const ticks = getTrajectoryTicks(
+      tle,
+      currentTime,
+      new Date(trajectory[0].timestamp * 1000),
+      new Date(trajectory[trajectory.length - 1].timestamp * 1000)
+    );
+    const getTickColor = (d: ISSTrajectoryTick): [number, number, number, number] => {
+      const [r, g, b, a] = trajectoryTicks.color;
+      return [r, g, b, Math.round(a * getOrbitFade(d.orbit))];
+    };
+
+    layers.push(
+      new ScatterplotLayer({
+        id: 'iss-trajectory-ticks',
+        data: ticks,
+        getPosition: (d: ISSTrajectoryTick) => [d.longitude, d.latitude],
+        getRadius: trajectoryTicks.radiusPixels,
+        radiusUnits: 'pixels',
+        getFillColor: getTickColor,
+        pickable: false,
+        parameters: { depthTest: false },
+        updateTriggers: {
+          getPosition: currentTime.getTime(),
+          getFillColor: currentTime.getTime(),
+        },
+      }),
+      new TextLayer({
+        id: 'iss-trajectory-tick-labels',
+        data: ticks,
+        getPosition: (d: ISSTrajectoryTick) => [d.longitude, d.latitude],
+        getText: (d: ISSTrajectoryTick) => formatTickTime(d.timestamp, trackSettings.tickTimeZone),
+        getSize: trajectoryTicks.labelSize,
+        getColor: getTickColor,
+        getTextAnchor: 'start',
+        getAlignmentBaseline: 'center',
+        getPixelOffset: [trajectoryTicks.radiusPixels + 3, 0],
+        fontFamily: CONFIG.styles.cities.fontFamily,
+        pickable: false,
+        parameters: { depthTest: false },
+        updateTriggers: {
+          getPosition: currentTime.getTime(),
+          getText: `${currentTime.getTime()}-${trackSettings.tickTimeZone}`,
+          getColor: currentTime.getTime(),
+        },
+      })
+    );
+  }
+
+  // Highlighted visible pass — the stretch of ground track seen from a city
+  if (highlightedPass && tle) {
+    const passTrack = propagateTrack(tle, new Date(highlightedPass.start), new Date(highlightedPass.end), 5)
+      .map(toTrajectoryPoint);
+
+    layers.push(new PathLayer({
+      id: 'iss-pass-highlight',
+      data: processTrajectoryForDateline(passTrack).map(path => ({ path })),
+      getPath: (d: any) => d.path,
+      getColor: CONFIG.satellites.passes.highlightColor,
+      getWidth: CONFIG.satellites.passes.highlightWidth,
+      widthUnits: 'pixels',
+      capRounded: true,
+      pickable: false,
+      parameters: { depthTest: false },
+      updateTriggers: {
+        getPath: `${highlightedPass.start}-${highlightedPass.end}`,
+      },
+    }));
+  }
+
+  // Orbital sunrise / sunset markers with their times
+  if (events.length > 0) {
+    const { orbitalEvents } = CONFIG.styles.iss;
+    const getEventColor = (d: ISSOrbitalEvent) =>
+      d.type === 'sunrise' ? orbitalEvents.sunriseColor : orbitalEvents.sunsetColor;
+
+    layers.push(
+      new ScatterplotLayer({
+        id: 'iss-orbital-events',
+        data: events,
+        getPosition: (d: ISSOrbitalEvent) => [d.longitude, d.latitude],
+        getRadius: orbitalEvents.radiusPixels,
+        radiusUnits: 'pixels',
+        getFillColor: getEventColor,
+        getLineColor: [15, 23, 42, 255],
+        lineWidthMinPixels: 1,
+        stroked: true,
+        pickable: true,
+        parameters: { depthTest: false },
+        updateTriggers: {
+          getPosition: currentTime.getTime(),
+          getFillColor: currentTime.getTime(),
+        },
+      }),
+      new TextLayer({
+        id: 'iss-orbital-event-labels',
+        data: events,
+        getPosition: (d: ISSOrbitalEvent) => [d.longitude, d.latitude],
+        getText: (d: ISSOrbitalEvent) =>
+          `${d.type === 'sunrise' ? 'Sunrise' : 'Sunset'} ${formatEventTime(d.timestamp)}`,
+        getSize: orbitalEvents.labelSize,
+        getColor: getEventColor,
+        getTextAnchor: 'start',
+        getAlignmentBaseline: 'center',
+        getPixelOffset: [orbitalEvents.radiusPixels + 4, 0],
+        fontFamily: CONFIG.styles.cities.fontFamily,
+        background: true,
+        getBackgroundColor: [15, 23, 42, 180],
+        backgroundPadding: [3, 1],
+        pickable: false,
+        parameters: { depthTest: false },
+        updateTriggers: {
+          getPosition: currentTime.getTime(),
+          getText: currentTime.getTime(),
+          getColor: currentTime.getTime(),
+        },
+      })
+    );
+  }
+
   // Current ISS position icon (render second - above trajectory)
   if (currentPosition) {
     layers.push(new IconLayer({
@@ -243,7 +523,7 @@ export function createISSLayers(currentTime: Date, onISSClick?: (info: any) => v
       alphaCutoff: -1,
       onClick: onISSClick,
       transitions: {
-        getPosition: { duration: 2000, type: 'interpolation' },
+        getPosition: { duration: CONFIG.styles.iss.positionTransitionMs, type: 'interpolation' },
       },
       updateTriggers: {
         getPosition: currentTime.getTime(),
@@ -0,0 +1,118 @@
+/**
+ * Moon Layer — sublunar point with a live phase icon, plus the optional
+ * hemisphere where the Moon is above the horizon.
+ */
+
+import { GeoJsonLayer, IconLayer } from '@deck.gl/layers';
+import type { Layer } from '@deck.gl/core';
+import { Body, Illumination, MoonPhase } from 'astronomy-engine';
+import { getMoonVisibilityPolygon, getSublunarPoint } from '../utils/nightSideGeometry';
+import { CONFIG } from '../config';
+
+export interface MoonDatum {
+  position: [number, number];
+  phaseAngle: number;   // 0 = new, 90 = first quarter, 180 = full, 270 = last quarter
+  phaseName: string;
+  illumination: number; // 0-1 illuminated fraction
+  distanceKm: number;
+}
+
+const PHASE_NAMES = [
+  'New Moon', 'Waxing Crescent', 'First Quarter', 'Waxing Gibbous',
+  'Full Moon', 'Waning Gibbous', 'Last Quarter', 'Waning Crescent',
+];
+
+function getPhaseName(phaseAngle: number): string {
+  return PHASE_NAMES[Math.floor(((phaseAngle + 22.5) % 360) / 45)];
+}
+
+// ── Phase icon — SVG drawn from the phase angle, cached per degree ─────
+
+const phaseIconCache: Record<number, string> = {};
+
+/**
+ * Lit limb is a half circle (right side when waxing, left when waning);
+ * the terminator is a half ellipse with x-radius r·|cos(phase)|, bulging
+ * towards the lit limb for a crescent and away from it when gibbous.
+ */
+function getPhaseIcon(phaseAngle: number): string {
+  const key = Math.round(phaseAngle) % 360;
+  if (phaseIconCache[key]) return phaseIconCache[key];
+
+  const { litColor, darkColor, rimColor } = CONFIG.styles.moon;
+  const r = 28;
+  const rx = r * Math.abs(Math.cos(key * Math.PI / 180));
+  const waxing = key < 180;
+  const crescent = Math.cos(key * Math.PI / 180) > 0;
+  const limbSweep = waxing ? 1 : 0;
+  const terminatorSweep = waxing === crescent ? 0 : 1;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64" viewBox="0 0 64 64">
+    <circle cx="32" cy="32" r="${r}" fill="${darkColor}" stroke="${rimColor}" stroke-width="1.5"/>
+    <path d="M32 ${32 - r} A${r} ${r} 0 0 ${limbSweep} 32 ${32 + r} A${rx.toFixed(2)} ${r} 0 0 ${terminatorSweep} 32 ${32 - r}Z" fill="${litColor}"/>
+  </svg>`;
+
+  phaseIconCache[key] = `data:image/svg+xml;base64,${btoa(svg)}`;
+  return phaseIconCache[key];
+}
+
+// ── Layer factory ────────────────────────────────────────────────────
+
+export function getMoonDatum(date: Date): MoonDatum {
+  const { point, distanceKm } = getSublunarPoint(date);
+  const phaseAngle = MoonPhase(date);
+  return {
+    position: point,
+    phaseAngle,
+    phaseName: getPhaseName(phaseAngle),
+    illumination: Illumination(Body.Moon, date).phase_fraction,
+    distanceKm,
+  };
+}
+
+export function createMoonLayers(date: Date, showMoonlitHemisphere: boolean): Layer[] {
+  const layers: Layer[] = [];
+  const moon = getMoonDatum(date);
+
+  if (showMoonlitHemisphere) {
+    layers.push(
+      new GeoJsonLayer({
+        id: 'moonlit-hemisphere',
+        data: getMoonVisibilityPolygon(date, 1),
+        filled: true,
+        stroked: true,
+        getFillColor: CONFIG.styles.moon.hemisphereFillColor,
+        getLineColor: CONFIG.styles.moon.hemisphereLineColor,
+        getLineWidth: 1,
+        lineWidthUnits: 'pixels',
+        pickable: false,
+        parameters: { depthTest: false },
+        updateTriggers: { getFillColor: date.getTime() },
+      })
+    );
+  }
+
+  layers.push(
+    new IconLayer({
+      id: 'moon-position',
+      data: [moon],
+      getPosition: (d: MoonDatum) => d.position,
+      getIcon: (d: MoonDatum) => ({
+        url: getPhaseIcon(d.phaseAngle),
+        width: 64,
+        height: 64,
+      }),
+      getSize: CONFIG.styles.moon.iconSize,
+      sizeUnits: 'pixels',
+      pickable: true,
+      alphaCutoff: -1,
+      autoHighlight: false,
+      updateTriggers: {
+        getPosition: date.getTime(),
+        getIcon: Math.round(moon.phaseAngle),
+      },
+    })
+  );
+
+  return layers;
+}
@@ -1,5 +1,6 @@
 /**
- * Night Layer — Terminator line + night visualization styles.
+ * Night Layer — Terminator line, twilight boundaries + night visualization styles
+ * (shadow gradient, city lights, full Black Marble, hard edge, twilight bands).
  * Terminator and night cycle are independent controls.
  */
 
@@ -11,12 +12,23 @@ import type { Layer } from '@deck.gl/core';
 import {
   getNightPolygon,
   getTerminatorLine,
+  getSolarZenithLine,
   getSubsolarPoint,
 } from '../utils/nightSideGeometry';
+import { NightShadowLayer, TwilightFadeExtension, setTwilightFadeSun } from './NightShadowLayer';
 import { CONFIG } from '../config';
 
 // ── Night style presets (for day/night cycle visualization) ───────────
-export type NightStyleKey = 'off' | 'masked';
+export type NightStyleKey = 'off' | 'shadow' | 'masked' | 'marble' | 'polygon' | 'bands';
+
+export const NIGHT_STYLES: { key: NightStyleKey; label: string; description: string }[] = [
+  { key: 'off', label: 'Off', description: 'Daylight everywhere' },
+  { key: 'shadow', label: 'Shadow only', description: 'Smooth twilight gradient, no city lights' },
+  { key: 'masked', label: 'City lights', description: 'Gradient with lights on the deep night side' },
+  { key: 'marble', label: 'Full Black Marble', description: 'Lights fade in through twilight' },
+  { key: 'polygon', label: 'Hard edge', description: 'Flat shadow at the terminator' },
+  { key: 'bands', label: 'Twilight bands', description: 'Stepped civil, nautical and astronomical zones' },
+];
 
 // ── Terminator line (independent of night styles) ─────────────────────
 
@@ -42,99 +54,47 @@ export function createTerminatorLayer(date: Date): Layer[] {
   ];
 }
 
-// ── Bitmap gradient — per-pixel smooth shadow, no polygon banding ─────
-
-const DEG_TO_RAD = Math.PI / 180;
-const RAD_TO_DEG = 180 / Math.PI;
-
-// ── Bitmap cache — regenerate only when sun moves visibly ─────────────
-interface BitmapCache {
-  canvas: HTMLCanvasElement | null;
-  sunLon: number;
-  sunLat: number;
-}
-let bitmapCache: BitmapCache = { canvas: null, sunLon: NaN, sunLat: NaN };
-const SUN_MOVE_THRESHOLD = 0.5; // degrees — one pixel at 720px/360°
-
-function createNightGradientBitmap(date: Date, maxAlpha: number): HTMLCanvasElement {
-  const width = 720;
-  const height = 360;
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext('2d')!;
-  const imageData = ctx.createImageData(width, height);
-  const data = imageData.data;
-
-  const [sunLon, sunLat] = getSubsolarPoint(date);
-  const sunLonRad = sunLon * DEG_TO_RAD;
-  const sunLatRad = sunLat * DEG_TO_RAD;
-  const cosSunLat = Math.cos(sunLatRad);
-  const sinSunLat = Math.sin(sunLatRad);
-
-  // Three twilight zones — each 6° with its own smoothstep
-  const civilStart = 90;      // sun hits the horizon
-  const nauticalStart = 96;   // civil → nautical
-  const astroStart = 102;     // nautical → astronomical
-  const astroEnd = 108;       // full darkness
+// ── Twilight boundary lines (civil / nautical / astronomical) ─────────
 
-  // Alpha breakpoints at zone boundaries
-  const civilAlpha = 0.35 * maxAlpha;
-  const nauticalAlpha = 0.75 * maxAlpha;
-
-  const [r, g, b] = CONFIG.styles.night.shadowColor;
+export type TwilightZone = keyof typeof CONFIG.styles.night.twilight;
 
-  for (let y = 0; y < height; y++) {
-    const lat = (90 - (y + 0.5) * 180 / height) * DEG_TO_RAD;
-    const cosLat = Math.cos(lat);
-    const sinLat = Math.sin(lat);
-
-    for (let x = 0; x < width; x++) {
-      const lon = (-180 + (x + 0.5) * 360 / width) * DEG_TO_RAD;
-      const cosAngle = sinSunLat * sinLat + cosSunLat * cosLat * Math.cos(lon - sunLonRad);
-      const angleDeg = Math.acos(Math.max(-1, Math.min(1, cosAngle))) * RAD_TO_DEG;
-
-      let alpha = 0;
-      if (angleDeg > civilStart) {
-        if (angleDeg < nauticalStart) {
-          // Civil twilight: 90–96°
-          const t = (angleDeg - civilStart) / 6;
-          alpha = t * t * (3 - 2 * t) * civilAlpha;
-        } else if (angleDeg < astroStart) {
-          // Nautical twilight: 96–102°
-          const t = (angleDeg - nauticalStart) / 6;
-          alpha = civilAlpha + t * t * (3 - 2 * t) * (nauticalAlpha - civilAlpha);
-        } else if (angleDeg < astroEnd) {
-          // Astronomical twilight: 102–108°
-          const t = (angleDeg - astroStart) / 6;
-          alpha = nauticalAlpha + t * t * (3 - 2 * t) * (maxAlpha - nauticalAlpha);
-        } else {
-          alpha = maxAlpha;
-        }
-      }
-
-      const idx = (y * width + x) * 4;
-      data[idx] = r;
-      data[idx + 1] = g;
-      data[idx + 2] = b;
-      data[idx + 3] = Math.round(alpha * 255);
-    }
-  }
+export const TWILIGHT_ZONES: TwilightZone[] = ['civil', 'nautical', 'astronomical'];
 
-  ctx.putImageData(imageData, 0, 0);
-  return canvas;
+export interface TwilightLineDatum {
+  zone: TwilightZone;
+  label: string;
+  zenith: number;
+  path: [number, number][];
 }
 
-function getCachedNightBitmap(date: Date, maxAlpha: number): HTMLCanvasElement {
-  const [sunLon, sunLat] = getSubsolarPoint(date);
-  const dLon = sunLon - bitmapCache.sunLon;
-  const dLat = sunLat - bitmapCache.sunLat;
-  if (bitmapCache.canvas && (dLon * dLon + dLat * dLat) < SUN_MOVE_THRESHOLD * SUN_MOVE_THRESHOLD) {
-    return bitmapCache.canvas;
-  }
-  const canvas = createNightGradientBitmap(date, maxAlpha);
-  bitmapCache = { canvas, sunLon, sunLat };
-  return canvas;
+export function createTwilightLayers(
+  date: Date,
+  visible: Record<TwilightZone, boolean>
+): Layer[] {
+  return TWILIGHT_ZONES.filter(zone => visible[zone]).map(zone => {
+    const { zenith, label, color } = CONFIG.styles.night.twilight[zone];
+    const geom = getSolarZenithLine(date, zenith, 1).geometry as GeoJSON.MultiLineString;
+    const data: TwilightLineDatum[] = geom.coordinates.map(path => ({
+      zone,
+      label,
+      zenith,
+      path: path as [number, number][],
+    }));
+
+    return new PathLayer({
+      id: `twilight-line-${zone}`,
+      data,
+      getPath: (d: TwilightLineDatum) => d.path,
+      getColor: color,
+      getWidth: CONFIG.styles.night.twilightWidth,
+      widthMinPixels: 1,
+      widthMaxPixels: 3,
+      opacity: 0.6,
+      pickable: true,
+      parameters: { depthTest: false },
+      updateTriggers: { getPath: date.getTime() },
+    });
+  });
 }
 
 // ── Tile brightness boost — per-pixel RGB multiply (with cache) ──────
@@ -165,28 +125,72 @@ function boostTileBrightness(image: any, factor: number): HTMLCanvasElement {
   return canvas;
 }
 
+// ── Shared pieces ─────────────────────────────────────────────────────
+
+function createShadowGradientLayer(date: Date): Layer {
+  // Per-fragment shadow gradient on the GPU — three-zone twilight
+  // (civil/nautical/astronomical), smooth at any zoom.
+  return new NightShadowLayer({
+    id: 'night-shadow-gradient',
+    sunPosition: getSubsolarPoint(date),
+    maxAlpha: CONFIG.styles.night.shadowMaxAlpha,
+    shadowColor: CONFIG.styles.night.shadowColor,
+  });
+}
+
+// TileLayer keeps rendered sublayers per tile, so each style needs its own id
+function createMarbleTileLayer(
+  id: string,
+  extensions: (MaskExtension | TwilightFadeExtension)[],
+  extraProps: Record<string, unknown>,
+  opacity: number
+): Layer {
+  return new TileLayer({
+    id,
+    data: CONFIG.styles.night.tileUrl,
+    minZoom: 0,
+    maxZoom: CONFIG.styles.night.maxZoom,
+    tileSize: 256,
+    opacity,
+    renderSubLayers: (props: any) => {
+      const { boundingBox } = props.tile;
+      const [west, south] = boundingBox[0];
+      const [east, north] = boundingBox[1];
+
+      return new BitmapLayer(props, {
+        data: undefined,
+        image: props.data ? boostTileBrightness(props.data, 2.5) : props.data,
+        bounds: [west, south, east, north],
+        extensions,
+        ...extraProps,
+        // Additive blending: dark pixels add nothing (basemap shows through),
+        // bright city lights add their color (lights glow on top).
+        parameters: {
+          depthTest: false,
+          blend: true,
+          blendColorSrcFactor: 'src-alpha',
+          blendColorDstFactor: 'one',
+          blendColorOperation: 'add',
+          blendAlphaSrcFactor: 'one',
+          blendAlphaDstFactor: 'one-minus-src-alpha',
+        },
+      });
+    },
+    pickable: false,
+  });
+}
+
+// ── Style: "shadow" — gradient only ────────────────────────────────────
+
+function createShadowLayers(date: Date): Layer[] {
+  return [createShadowGradientLayer(date)];
+}
+
 // ── Style: "masked" — Black Marble tiles clipped to night polygon ──────
 
 function createMaskedLayers(date: Date): Layer[] {
-  const layers: Layer[] = [];
-
-  // Per-pixel shadow gradient — smooth transition from daylight to darkness.
-  // Three-zone twilight gradient (civil/nautical/astronomical) with caching.
-  layers.push(
-    new BitmapLayer({
-      id: 'night-shadow-gradient',
-      image: getCachedNightBitmap(date, 0.55),
-      bounds: [-180, -85, 180, 85],
-      opacity: 1,
-      pickable: false,
-      parameters: { depthTest: false },
-      updateTriggers: {
-        image: `${Math.round(bitmapCache.sunLon * 2)}_${Math.round(bitmapCache.sunLat * 2)}`,
-      },
-    })
-  );
-
-  layers.push(
+  return [
+    createShadowGradientLayer(date),
     new GeoJsonLayer({
       id: 'night-mask-polygon',
       data: getNightPolygon(date, 78, 1),
@@ -195,53 +199,75 @@ function createMaskedLayers(date: Date): Layer[] {
       stroked: false,
       getFillColor: [0, 0, 0, 255],
       updateTriggers: { getFillColor: date.getTime() },
-    })
-  );
-
-  layers.push(
-    new TileLayer({
-      id: 'night-marble-tiles',
-      data: CONFIG.styles.night.tileUrl,
-      minZoom: 0,
-      maxZoom: CONFIG.styles.night.maxZoom,
-      tileSize: 256,
-      opacity: 0.45,
-      renderSubLayers: (props: any) => {
-        const { boundingBox } = props.tile;
-        const [west, south] = boundingBox[0];
-        const [east, north] = boundingBox[1];
-
-        return new BitmapLayer(props, {
-          data: undefined,
-          image: props.data ? boostTileBrightness(props.data, 2.5) : props.data,
-          bounds: [west, south, east, north],
-          extensions: [new MaskExtension()],
-          maskId: 'night-mask-polygon',
-          // Additive blending: dark pixels add nothing (basemap shows through),
-          // bright city lights add their color (lights glow on top).
-          parameters: {
-            depthTest: false,
-            blend: true,
-            blendColorSrcFactor: 'src-alpha',
-            blendColorDstFactor: 'one',
-            blendColorOperation: 'add',
-            blendAlphaSrcFactor: 'one',
-            blendAlphaDstFactor: 'one-minus-src-alpha',
-          },
-        });
-      },
+    }),
+    createMarbleTileLayer('night-marble-tiles', [new MaskExtension()], { maskId: 'night-mask-polygon' }, 0.45),
+  ];
+}
+
+// ── Style: "marble" — whole night side, lights fading in with twilight ─
+
+const marbleFade = new TwilightFadeExtension({ range: CONFIG.styles.night.marbleFadeZenith });
+
+function createMarbleLayers(date: Date): Layer[] {
+  setTwilightFadeSun(getSubsolarPoint(date));
+  return [
+    createShadowGradientLayer(date),
+    createMarbleTileLayer('night-marble-fade-tiles', [marbleFade], {}, 0.6),
+  ];
+}
+
+// ── Style: "polygon" — single hard-edged shadow ────────────────────────
+
+function createPolygonLayers(date: Date): Layer[] {
+  return [
+    new GeoJsonLayer({
+      id: 'night-hard-polygon',
+      data: getNightPolygon(date, 90, 1),
+      filled: true,
+      stroked: false,
+      getFillColor: CONFIG.styles.night.polygonColor,
       pickable: false,
-    })
-  );
+      parameters: { depthTest: false },
+      updateTriggers: { getFillColor: date.getTime() },
+    }),
+  ];
+}
+
+// ── Style: "bands" — stepped darkness per twilight zone ────────────────
 
-  return layers;
+const BAND_ZENITHS = [90, 96, 102, 108];
+
+function createBandLayers(date: Date): Layer[] {
+  const [r, g, b] = CONFIG.styles.night.shadowColor;
+  const targets = CONFIG.styles.night.bandAlphas;
+
+  // Bands are stacked, so each one adds just enough alpha to bring the
+  // composite from the previous band's darkness up to its own
+  return BAND_ZENITHS.map((zenith, i) => {
+    const previous = i > 0 ? targets[i - 1] : 0;
+    const alpha = 1 - (1 - targets[i]) / (1 - previous);
+    return new GeoJsonLayer({
+      id: `night-band-${zenith}`,
+      data: getNightPolygon(date, 180 - zenith, 1),
+      filled: true,
+      stroked: false,
+      getFillColor: [r, g, b, Math.round(alpha * 255)],
+      pickable: false,
+      parameters: { depthTest: false },
+      updateTriggers: { getFillColor: date.getTime() },
+    });
+  });
 }
 
 // ── Public API ─────────────────────────────────────────────────────────
 
 const STYLE_FACTORIES: Record<NightStyleKey, (date: Date) => Layer[]> = {
   off: () => [],
+  shadow: createShadowLayers,
   masked: createMaskedLayers,
+  marble: createMarbleLayers,
+  polygon: createPolygonLayers,
+  bands: createBandLayers,
 };
 
 export function createNightLayers(
@@ -0,0 +1,193 @@
+/**
+ * Night Shadow Layer — GPU night gradient, plus a twilight fade extension.
+ *
+ * Both compute the solar zenith angle per fragment from a sun-direction
+ * uniform, so output is smooth at any zoom and follows the sun continuously
+ * while scrubbing.
+ *
+ * The vertex shader passes the Web Mercator common-space position; it is
+ * linear in screen space, so interpolation is exact and the fragment shader
+ * recovers longitude/latitude analytically.
+ *
+ * Three twilight zones, each 6° with its own smoothstep:
+ *   90–96° civil → 96–102° nautical → 102–108° astronomical → full darkness
+ */
+
+import { SolidPolygonLayer } from '@deck.gl/layers';
+import { LayerExtension, type DefaultProps, type Layer } from '@deck.gl/core';
+
+// ── Shared shader module — solar zenith angle per fragment ────────────
+
+const solarZenith = {
+  name: 'solarZenith',
+  vs: `\
+out vec2 vSolarZenithCommon;
+`,
+  fs: `\
+uniform solarZenithUniforms {
+  vec3 sunDirection;
+} solarZenith;
+
+in vec2 vSolarZenithCommon;
+
+// Web Mercator common space (512 units per world) to radians
+vec2 solarZenith_lngLat(vec2 common) {
+  const float pi = 3.1415926536;
+  vec2 xy = common / (512.0 / (2.0 * pi));
+  return vec2(xy.x - pi, atan(exp(xy.y - pi)) * 2.0 - pi * 0.5);
+}
+
+float solarZenith_degrees() {
+  vec2 lngLat = solarZenith_lngLat(vSolarZenithCommon);
+  vec3 normal = vec3(cos(lngLat.y) * cos(lngLat.x), cos(lngLat.y) * sin(lngLat.x), sin(lngLat.y));
+  return degrees(acos(clamp(dot(normal, solarZenith.sunDirection), -1.0, 1.0)));
+}
+`,
+  inject: {
+    'vs:#main-end': 'vSolarZenithCommon = geometry.position.xy + project.commonOrigin.xy;',
+  },
+  uniformTypes: {
+    sunDirection: 'vec3<f32>',
+  },
+} as const;
+
+function getSunDirection([lonDeg, latDeg]: [number, number]): [number, number, number] {
+  const lon = lonDeg * Math.PI / 180;
+  const lat = latDeg * Math.PI / 180;
+  return [Math.cos(lat) * Math.cos(lon), Math.cos(lat) * Math.sin(lon), Math.sin(lat)];
+}
+
+// ── Night shadow gradient layer ───────────────────────────────────────
+
+type NightShadowLayerProps = {
+  /** Subsolar point [lon, lat] in degrees */
+  sunPosition: [number, number];
+  /** Alpha reached beyond astronomical twilight, 0–1 */
+  maxAlpha: number;
+  /** Shadow RGB, 0–255 */
+  shadowColor: readonly number[];
+};
+
+const nightShadowUniforms = {
+  name: 'nightShadow',
+  fs: `\
+uniform nightShadowUniforms {
+  vec3 color;
+  float maxAlpha;
+} nightShadow;
+
+float nightShadow_alpha(float zenith) {
+  float civilAlpha = 0.35 * nightShadow.maxAlpha;
+  float nauticalAlpha = 0.75 * nightShadow.maxAlpha;
+  return civilAlpha * smoothstep(90.0, 96.0, zenith)
+    + (nauticalAlpha - civilAlpha) * smoothstep(96.0, 102.0, zenith)
+    + (nightShadow.maxAlpha - nauticalAlpha) * smoothstep(102.0, 108.0, zenith);
+}
+`,
+  uniformTypes: {
+    color: 'vec3<f32>',
+    maxAlpha: 'f32',
+  },
+} as const;
+
+const WORLD_POLYGON = [[-180, -85], [180, -85], [180, 85], [-180, 85], [-180, -85]];
+
+const defaultProps: DefaultProps<NightShadowLayerProps> = {
+  sunPosition: { type: 'array', value: [0, 0], compare: true },
+  maxAlpha: { type: 'number', value: 0.55, min: 0, max: 1 },
+  shadowColor: { type: 'color', value: [5, 5, 25] },
+};
+
+export class NightShadowLayer extends SolidPolygonLayer<unknown, NightShadowLayerProps> {
+  static layerName = 'NightShadowLayer';
+  static defaultProps = {
+    ...SolidPolygonLayer.defaultProps,
+    ...defaultProps,
+    data: [{ polygon: WORLD_POLYGON }],
+    getPolygon: (d: any) => d.polygon,
+    getFillColor: [255, 255, 255, 255] as [number, number, number, number],
+    pickable: false,
+    // Always on top of the basemap, never occluding later layers
+    parameters: { depthCompare: 'always' as const, depthWriteEnabled: false },
+  };
+
+  getShaders(type: 'top' | 'side') {
+    const shaders = super.getShaders(type);
+    return {
+      ...shaders,
+      modules: [...shaders.modules, solarZenith, nightShadowUniforms],
+      inject: {
+        ...shaders.inject,
+        'fs:DECKGL_FILTER_COLOR': `
+  color = vec4(nightShadow.color, nightShadow_alpha(solarZenith_degrees()) * color.a);
+`,
+      },
+    };
+  }
+
+  draw(opts: any) {
+    const [r, g, b] = this.props.shadowColor;
+    for (const model of this.getModels()) {
+      model.shaderInputs.setProps({
+        solarZenith: { sunDirection: getSunDirection(this.props.sunPosition) },
+        nightShadow: { color: [r / 255, g / 255, b / 255], maxAlpha: this.props.maxAlpha },
+      });
+    }
+    super.draw(opts);
+  }
+}
+
+// ── Twilight fade extension — fades any layer in across the terminator ─
+
+type TwilightFadeOptions = {
+  /** Zenith angles (degrees) where the layer starts and finishes fading in */
+  range: readonly [number, number];
+};
+
+const twilightFadeUniforms = {
+  name: 'twilightFade',
+  fs: `\
+uniform twilightFadeUniforms {
+  vec2 range;
+} twilightFade;
+`,
+  uniformTypes: {
+    range: 'vec2<f32>',
+  },
+} as const;
+
+// TileLayer caches its sublayers per tile and never hands them new props,
+// so faded tiles read the sun from here at draw time instead.
+let fadeSunDirection: [number, number, number] = [1, 0, 0];
+
+export function setTwilightFadeSun(sunPosition: [number, number]): void {
+  fadeSunDirection = getSunDirection(sunPosition);
+}
+
+export class TwilightFadeExtension extends LayerExtension<TwilightFadeOptions> {
+  static extensionName = 'TwilightFadeExtension';
+
+  constructor(opts: TwilightFadeOptions = { range: [90, 102] }) {
+    super(opts);
+  }
+
+  getShaders(this: Layer, _extension: this) {
+    return {
+      modules: [solarZenith, twilightFadeUniforms],
+      inject: {
+        'fs:DECKGL_FILTER_COLOR': `
+  color.a *= smoothstep(twilightFade.range.x, twilightFade.range.y, solarZenith_degrees());
+`,
+      },
+    };
+  }
+
+  draw(this: Layer, _params: any, extension: this) {
+    for (const model of this.getModels()) {
+      model.shaderInputs.setProps({
+        solarZenith: { sunDirection: fadeSunDirection },
+        twilightFade: { range: extension.opts.range },
+      });
+    }
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Plate Boundaries Layer - Local-first with GitHub fallback
+ * Loads Bird's PB2002 plate-boundary steps from the bundled GeoJSON file,
+ * falling back to the published copy if it is missing. Each step is styled
+ * by boundary type: spreading ridge, trench or transform.
+ */
+
+import { PathLayer } from '@deck.gl/layers';
+import { CONFIG } from '../config';
+
+export type PlateBoundaryType = keyof typeof CONFIG.styles.plateBoundaries.types;
+
+export interface PlateBoundarySegment {
+  path: [number, number][];
+  type: PlateBoundaryType;
+  stepClass: string;   // PB2002 step class, e.g. 'OSR'
+  plateA: string;      // Two-letter PB2002 plate codes
+  plateB: string;
+}
+
+// PB2002 step classes (Bird 2003) grouped into the three drawn types
+const STEP_CLASSES: Record<string, { type: PlateBoundaryType; label: string }> = {
+  OSR: { type: 'ridge', label: 'Oceanic spreading ridge' },
+  CRB: { type: 'ridge', label: 'Continental rift' },
+  OTF: { type: 'transform', label: 'Oceanic transform fault' },
+  CTF: { type: 'transform', label: 'Continental transform fault' },
+  SUB: { type: 'trench', label: 'Subduction zone' },
+  OCB: { type: 'trench', label: 'Oceanic convergent boundary' },
+  CCB: { type: 'trench', label: 'Continental convergent boundary' },
+};
+
+const PLATE_NAMES: Record<string, string> = {
+  AF: 'Africa', AM: 'Amur', AN: 'Antarctica', AP: 'Altiplano', AR: 'Arabia', AS: 'Aegean Sea',
+  AT: 'Anatolia', AU: 'Australia', BH: "Bird's Head", BR: 'Balmoral Reef', BS: 'Banda Sea', BU: 'Burma',
+  CA: 'Caribbean', CL: 'Caroline', CO: 'Cocos', CR: 'Conway Reef', EA: 'Easter', EU: 'Eurasia',
+  FT: 'Futuna', GP: 'Galápagos', IN: 'India', JF: 'Juan de Fuca', JZ: 'Juan Fernández', KE: 'Kermadec',
+  MA: 'Mariana', MN: 'Manus', MO: 'Maoke', MS: 'Molucca Sea', NA: 'North America', NB: 'North Bismarck',
+  ND: 'North Andes', NH: 'New Hebrides', NI: "Niuafo'ou", NZ: 'Nazca', OK: 'Okhotsk', ON: 'Okinawa',
+  PA: 'Pacific', PM: 'Panama', PS: 'Philippine Sea', RI: 'Rivera', SA: 'South America', SB: 'South Bismarck',
+  SC: 'Scotia', SL: 'Shetland', SO: 'Somalia', SS: 'Solomon Sea', SU: 'Sunda', SW: 'Sandwich',
+  TI: 'Timor', TO: 'Tonga', WL: 'Woodlark', YA: 'Yangtze',
+};
+
+// Simple cache for processed boundary data
+let plateBoundariesCache: PlateBoundarySegment[] | null = null;
+
+/**
+ * Full plate name for a PB2002 code ("PA" → "Pacific")
+ */
+export function getPlateName(code: string): string {
+  return PLATE_NAMES[code] ?? code;
+}
+
+/**
+ * Human-readable PB2002 step class ("SUB" → "Subduction zone")
+ */
+export function getStepClassLabel(stepClass: string): string {
+  return STEP_CLASSES[stepClass]?.label ?? stepClass;
+}
+
+/**
+ * Create the deck.gl PathLayer with one path per boundary step
+ */
+export function createPlateBoundariesLayers(): Promise<PathLayer[]> {
+  return fetchPlateBoundariesData()
+    .then(data => {
+      const { types } = CONFIG.styles.plateBoundaries;
+      return [new PathLayer({
+        id: CONFIG.layerIds.plateBoundaries,
+        data,
+        getPath: (d: PlateBoundarySegment) => d.path,
+        getColor: (d: PlateBoundarySegment) => types[d.type].color,
+        getWidth: (d: PlateBoundarySegment) => types[d.type].width,
+        widthUnits: 'pixels',
+        wrapLongitude: true, // Steps crossing the antimeridian
+        capRounded: true,
+        jointRounded: true,
+        pickable: true,
+        parameters: {
+          depthTest: false,
+        },
+      })];
+    })
+    .catch(() => []);
+}
+
+/**
+ * Fetch boundary data from the bundled file, falling back to the published PB2002 copy
+ */
+export async function fetchPlateBoundariesData(): Promise<PlateBoundarySegment[]> {
+  try {
+    // Return cached data if available
+    if (plateBoundariesCache) {
+      return plateBoundariesCache;
+    }
+
+    const { dataPath, remoteUrl } = CONFIG.styles.plateBoundaries;
+
+    // Try local file first
+    try {
+      const response = await fetch(dataPath);
+      if (response.ok) {
+        const processedData = processGeoJsonFeatures(await response.json());
+        if (processedData.length > 0) {
+          plateBoundariesCache = processedData;
+          return processedData;
+        }
+      }
+    } catch (localFileError) {
+      console.warn('Failed to load local plate boundaries, falling back to remote copy:', localFileError);
+    }
+
+    const response = await fetch(remoteUrl);
+    if (!response.ok) {
+      throw new Error(`Plate boundaries error! status: ${response.status}`);
+    }
+
+    const processedData = processGeoJsonFeatures(await response.json());
+    if (processedData.length === 0) {
+      throw new Error('No plate boundary features found');
+    }
+
+    plateBoundariesCache = processedData;
+    return processedData;
+
+  } catch (error) {
+    console.error('Failed to load plate boundary data:', error);
+    return [];
+  }
+}
+
+/**
+ * Process PB2002 step features into typed segments. Steps are labelled
+ * "AF-AN"; a slash or backslash instead of the dash marks subduction polarity.
+ */
+function processGeoJsonFeatures(geojsonData: any): PlateBoundarySegment[] {
+  const segments: PlateBoundarySegment[] = [];
+
+  (geojsonData?.features ?? []).forEach((feature: any) => {
+    const properties = feature.properties ?? {};
+    const stepClass = String(properties.STEPCLASS ?? properties.Type ?? '').toUpperCase();
+    const boundaryClass = STEP_CLASSES[stepClass];
+    const plates = String(properties.PLATEBOUND ?? properties.Name ?? properties.LABEL ?? '').match(/([A-Z]{2})[-\\/]([A-Z]{2})/);
+    if (!boundaryClass || !plates) return;
+
+    const { type, coordinates } = feature.geometry ?? {};
+    const paths: [number, number][][] = type === 'LineString' ? [coordinates] : type === 'MultiLineString' ? coordinates : [];
+    paths.forEach(path => {
+      segments.push({ path, type: boundaryClass.type, stepClass, plateA: plates[1], plateB: plates[2] });
+    });
+  });
+
+  return segments;
+}
@@ -0,0 +1,223 @@
+/**
+ * Satellite Layer — tracker for a user-chosen set of satellites
+ * Same SGP4 propagation as the ISS; each satellite has its own icon, color
+ * and one-orbit ground track, whatever its period (90 min LEO to 12 h GPS).
+ */
+
+import { IconLayer, PathLayer, TextLayer } from '@deck.gl/layers';
+import type { Layer } from '@deck.gl/core';
+import { CONFIG } from '../config';
+import { BaseDataManager } from '../utils/BaseDataManager';
+import { splitAtAntimeridian } from '../utils/eclipseGeometry';
+import {
+  getOrbitalPeriodMinutes, loadTle, propagateSatellite, propagateTrack,
+  type SatelliteState, type TleRecord,
+} from '../services/satelliteOrbitService';
+import { getSatelliteInfo, type SatelliteKind } from '../services/satelliteCatalogService';
+
+export interface SatelliteDatum {
+  noradId: number;
+  name: string;
+  kind: SatelliteKind;
+  color: [number, number, number];
+  periodMinutes: number;
+  tleEpoch: string;
+  state: SatelliteState;
+}
+
+interface SatelliteLayerData {
+  tles: Map<number, TleRecord>;
+  errors: Map<number, string>;
+  lastUpdate: Date | null;
+}
+
+// Satellite data cache — one TLE per tracked NORAD ID
+const satelliteDataCache: SatelliteLayerData = {
+  tles: new Map(),
+  errors: new Map(),
+  lastUpdate: null,
+};
+
+// ── Icons — one glyph per kind, tinted with the satellite's color ─────
+
+const ICON_GLYPHS: Record<SatelliteKind, string> = {
+  station: `<rect x="27" y="22" width="10" height="20" rx="2"/><rect x="4" y="14" width="8" height="36"/><rect x="14" y="14" width="8" height="36"/><rect x="42" y="14" width="8" height="36"/><rect x="52" y="14" width="8" height="36"/><rect x="22" y="30" width="20" height="4"/>`,
+  telescope: `<rect x="24" y="8" width="16" height="40" rx="3"/><rect x="22" y="44" width="20" height="8" rx="2"/><rect x="4" y="20" width="16" height="8"/><rect x="44" y="20" width="16" height="8"/>`,
+  weather: `<rect x="22" y="22" width="20" height="20" rx="2"/><rect x="44" y="10" width="14" height="44"/><circle cx="14" cy="32" r="7"/><rect x="18" y="30" width="4" height="4"/>`,
+  navigation: `<rect x="24" y="22" width="16" height="20" rx="2"/><rect x="4" y="24" width="18" height="16"/><rect x="42" y="24" width="18" height="16"/><rect x="30" y="42" width="4" height="12"/>`,
+  starlink: `<rect x="8" y="26" width="22" height="12" rx="2"/><rect x="32" y="29" width="28" height="6"/>`,
+  generic: `<rect x="24" y="24" width="16" height="16" rx="2"/><rect x="4" y="26" width="18" height="12"/><rect x="42" y="26" width="18" height="12"/>`,
+};
+
+const iconCache: Record<string, string> = {};
+
+function getSatelliteIcon(kind: SatelliteKind, [r, g, b]: [number, number, number]): string {
+  const key = `${kind}|${r},${g},${b}`;
+  if (!iconCache[key]) {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64" viewBox="0 0 64 64">
+      <g fill="rgb(${r}, ${g}, ${b})" stroke="#0f172a" stroke-width="1.5">${ICON_GLYPHS[kind]}</g>
+    </svg>`;
+    iconCache[key] = `data:image/svg+xml;base64,${btoa(svg)}`;
+  }
+  return iconCache[key];
+}
+
+// ── Data ─────────────────────────────────────────────────────────────
+
+/**
+ * Load TLEs for any tracked satellite that does not have one yet
+ */
+async function updateSatelliteData(noradIds: number[]): Promise<void> {
+  await Promise.all(noradIds.map(async noradId => {
+    try {
+      satelliteDataCache.tles.set(noradId, await loadTle(noradId));
+      satelliteDataCache.errors.delete(noradId);
+    } catch (error) {
+      // Keep propagating from the previous TLE if there is one
+      if (!satelliteDataCache.tles.has(noradId)) {
+        satelliteDataCache.errors.set(noradId, error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+  }));
+  satelliteDataCache.lastUpdate = new Date();
+}
+
+/**
+ * Satellite Manager — keeps TLEs fresh for a list of NORAD IDs. The tracker
+ * runs one for the user's satellites and the ISS layer one for the station.
+ */
+export class SatelliteManager extends BaseDataManager<SatelliteLayerData> {
+  private noradIds: number[];
+
+  constructor(noradIds: number[]) {
+    super({
+      updateFunction: () => updateSatelliteData(this.noradIds),
+      updateIntervalMs: CONFIG.satellites.tle.refreshIntervalMs,
+      getDataCache: () => satelliteDataCache,
+    });
+    this.noradIds = noradIds;
+  }
+
+  /**
+   * Change the tracked set; only newly added satellites are fetched
+   */
+  async setTracked(noradIds: number[]): Promise<void> {
+    this.noradIds = noradIds;
+    await updateSatelliteData(noradIds.filter(id => !satelliteDataCache.tles.has(id)));
+  }
+}
+
+/**
+ * Latest TLE loaded for a satellite, shared by every manager
+ */
+export function getSatelliteTle(noradId: number): TleRecord | null {
+  return satelliteDataCache.tles.get(noradId) ?? null;
+}
+
+/**
+ * Name of a tracked satellite — catalog name, else the TLE name
+ */
+export function getSatelliteName(noradId: number): string {
+  return getSatelliteInfo(noradId).name ?? satelliteDataCache.tles.get(noradId)?.name ?? `NORAD ${noradId}`;
+}
+
+/**
+ * Why a tracked satellite has no TLE, if loading failed
+ */
+export function getSatelliteError(noradId: number): string | null {
+  return satelliteDataCache.errors.get(noradId) ?? null;
+}
+
+/**
+ * Current datum for each tracked satellite that has a TLE
+ */
+export function getSatelliteData(noradIds: number[], time: Date): SatelliteDatum[] {
+  return noradIds.flatMap(noradId => {
+    const tle = satelliteDataCache.tles.get(noradId);
+    if (!tle) return [];
+    const state = propagateSatellite(tle, time);
+    if (!state) return [];
+
+    const { kind, color } = getSatelliteInfo(noradId);
+    return [{
+      noradId,
+      name: getSatelliteName(noradId),
+      kind,
+      color,
+      periodMinutes: getOrbitalPeriodMinutes(tle),
+      tleEpoch: tle.line1.slice(18, 32).trim(),
+      state,
+    }];
+  });
+}
+
+// ── Layer factory ────────────────────────────────────────────────────
+
+export function createSatelliteLayers(currentTime: Date, noradIds: number[]): Layer[] {
+  const layers: Layer[] = [];
+  const satellites = getSatelliteData(noradIds, currentTime);
+  const style = CONFIG.satellites;
+
+  // One-orbit ground track per satellite (below the icons)
+  satellites.forEach(sat => {
+    const tle = satelliteDataCache.tles.get(sat.noradId)!;
+    const end = new Date(currentTime.getTime() + sat.periodMinutes * 60000);
+    const stepSeconds = (sat.periodMinutes * 60) / style.trajectoryPoints;
+    const track = propagateTrack(tle, currentTime, end, stepSeconds);
+    const segments = splitAtAntimeridian(track, s => s.longitude)
+      .map(run => ({ path: run.map(s => [s.longitude, s.latitude]) }));
+
+    layers.push(new PathLayer({
+      id: `satellite-trajectory-${sat.noradId}`,
+      data: segments,
+      getPath: (d: any) => d.path,
+      getColor: [...sat.color, 200],
+      getWidth: style.trajectoryWidth,
+      widthUnits: 'pixels',
+      opacity: style.trajectoryOpacity,
+      pickable: false,
+      parameters: { depthTest: false },
+    }));
+  });
+
+  layers.push(
+    new IconLayer({
+      id: 'satellite-positions',
+      data: satellites,
+      getPosition: (d: SatelliteDatum) => [d.state.longitude, d.state.latitude],
+      getIcon: (d: SatelliteDatum) => ({
+        url: getSatelliteIcon(d.kind, d.color),
+        width: 64,
+        height: 64,
+        anchorX: 32,
+        anchorY: 32,
+      }),
+      getSize: style.iconSize,
+      sizeUnits: 'pixels',
+      pickable: true,
+      alphaCutoff: -1,
+      parameters: { depthTest: false },
+      updateTriggers: { getIcon: noradIds.join(',') },
+    }),
+    new TextLayer({
+      id: 'satellite-labels',
+      data: satellites,
+      getPosition: (d: SatelliteDatum) => [d.state.longitude, d.state.latitude],
+      getText: (d: SatelliteDatum) => d.name,
+      getSize: style.labelSize,
+      getColor: (d: SatelliteDatum) => [...d.color, 230],
+      getTextAnchor: 'middle',
+      getAlignmentBaseline: 'top',
+      getPixelOffset: [0, style.iconSize / 2 + 2],
+      fontFamily: CONFIG.styles.cities.fontFamily,
+      background: true,
+      getBackgroundColor: [15, 23, 42, 160],
+      backgroundPadding: [3, 1],
+      pickable: false,
+      parameters: { depthTest: false },
+      updateTriggers: { getText: noradIds.join(','), getColor: noradIds.join(',') },
+    })
+  );
+
+  return layers;
+}
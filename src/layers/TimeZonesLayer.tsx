@@ -46,9 +46,10 @@ export function createTimeZonesLayers(): Promise<PolygonLayer[]> {
 }
 
 /**
- * Fetch timezone data from local file with ArcGIS API fallback
+ * Fetch timezone data from local file with ArcGIS API fallback.
+ * One entry per polygon; the calendar-date layer falls back to it.
  */
-async function fetchTimeZonesData(): Promise<any[]> {
+export async function fetchTimeZonesData(): Promise<any[]> {
   try {
     // Return cached data if available
     if (timezonesCache) {
@@ -0,0 +1,121 @@
+/**
+ * Earthquake Alert Service - Events we need to react to
+ * An event escalates when USGS PAGER rates it orange or red, or when it
+ * carries the tsunami flag. New alerts can raise a browser notification.
+ */
+
+import { CONFIG } from '../config';
+import { safeSyncOperation } from '../utils/errorHandler';
+
+export interface EarthquakeAlert {
+  id: string;
+  magnitude: number;
+  place: string;
+  time: number;          // ms
+  longitude: number;
+  latitude: number;
+  depthKm: number;
+  pagerLevel: 'orange' | 'red' | null;
+  tsunami: boolean;
+  url: string;
+}
+
+/**
+ * Whether a USGS event's properties call for escalation
+ */
+export function isAlertEvent(alert: string | null | undefined, tsunami: number): boolean {
+  return tsunami === 1 || (!!alert && (CONFIG.styles.earthquakes.alerts.pagerLevels as readonly string[]).includes(alert));
+}
+
+/**
+ * PAGER level worth escalating, if any
+ */
+export function getPagerLevel(alert: string | null | undefined): EarthquakeAlert['pagerLevel'] {
+  return alert === 'orange' || alert === 'red' ? alert : null;
+}
+
+/**
+ * Marker colour — PAGER level first, tsunami otherwise
+ */
+export function getAlertColor(pagerLevel: EarthquakeAlert['pagerLevel']): [number, number, number] {
+  const { colors } = CONFIG.styles.earthquakes.alerts;
+  return colors[pagerLevel ?? 'tsunami'];
+}
+
+/**
+ * "Red PAGER · Tsunami" style summary of why an event escalated
+ */
+export function describeAlert(alert: EarthquakeAlert): string {
+  const reasons: string[] = [];
+  if (alert.pagerLevel) reasons.push(`${alert.pagerLevel === 'red' ? 'Red' : 'Orange'} PAGER`);
+  if (alert.tsunami) reasons.push('Tsunami');
+  return reasons.join(' · ');
+}
+
+// ── Browser notifications ─────────────────────────────────────────────
+
+// Alerts already seen in the loaded feed; reseeded (without notifying)
+// whenever a different feed arrives, so neither a page load nor switching
+// from the day to the week feed fires a burst of notifications
+let seenAlertIds: Set<string> | null = null;
+let seenFeedUrl: string | null = null;
+
+/**
+ * Notify about alerts that were not in the previous download of the same
+ * feed. `feedUrl` is null while no feed has loaded successfully.
+ */
+export function notifyNewAlerts(alerts: EarthquakeAlert[], feedUrl: string | null, enabled: boolean): void {
+  if (!feedUrl) return; // failed fetch: keep what we have seen so far
+
+  if (!seenAlertIds || feedUrl !== seenFeedUrl) {
+    seenAlertIds = new Set(alerts.map(alert => alert.id));
+    seenFeedUrl = feedUrl;
+    return;
+  }
+
+  const fresh = alerts.filter(alert => !seenAlertIds!.has(alert.id));
+  fresh.forEach(alert => seenAlertIds!.add(alert.id));
+  if (!enabled || typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+  fresh.forEach(alert => {
+    safeSyncOperation(
+      () => new Notification(`M${alert.magnitude.toFixed(1)} earthquake — ${describeAlert(alert)}`, {
+        body: alert.place,
+        tag: alert.id, // one notification per event, even across tabs
+      }),
+      'show earthquake alert notification',
+      null
+    );
+  });
+}
+
+/**
+ * Ask for notification permission; resolves to whether notifications may be shown
+ */
+export async function requestAlertNotificationPermission(): Promise<boolean> {
+  if (typeof Notification === 'undefined') return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+/**
+ * Simple localStorage helpers
+ */
+const STORAGE_KEY = 'earthquake_alert_notifications';
+
+export function saveAlertNotificationsEnabled(enabled: boolean): void {
+  safeSyncOperation(
+    () => localStorage.setItem(STORAGE_KEY, JSON.stringify(enabled)),
+    'save earthquake alert notification setting',
+    undefined
+  );
+}
+
+export function loadAlertNotificationsEnabled(): boolean {
+  return safeSyncOperation(
+    () => localStorage.getItem(STORAGE_KEY) === 'true',
+    'load earthquake alert notification setting',
+    false
+  );
+}
@@ -0,0 +1,208 @@
+/**
+ * Earthquake Detail Service - One event's USGS detail GeoJSON
+ * Review status, felt reports, focal mechanism and ShakeMap intensity
+ * contours. Every request goes through an injectable fetcher so a local
+ * fixture can stand in for the USGS API.
+ */
+
+export type JsonFetcher = (url: string) => Promise<unknown>;
+
+export const defaultJsonFetcher: JsonFetcher = async (url) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`USGS API error: ${response.status} ${response.statusText}`);
+  }
+  return await response.json();
+};
+
+let currentFetcher: JsonFetcher = defaultJsonFetcher;
+
+/**
+ * Swap the fetcher used for detail and ShakeMap requests, e.g. for a fixture
+ */
+export function setEarthquakeDetailFetcher(fetcher: JsonFetcher): void {
+  currentFetcher = fetcher;
+}
+
+/** Nodal plane of the focal mechanism, in degrees */
+export interface FocalMechanism {
+  strike: number;
+  dip: number;
+  rake: number;
+  source: 'moment-tensor' | 'focal-mechanism';
+}
+
+/** One ShakeMap intensity contour line */
+export interface ShakeMapContour {
+  path: [number, number][];
+  mmi: number;
+  color: [number, number, number];
+}
+
+export interface EarthquakeDetail {
+  id: string;
+  title: string;
+  place: string;
+  time: number;           // ms
+  depthKm: number;
+  magnitude: number;
+  magType: string;
+  status: string;         // automatic | reviewed | deleted
+  felt: number | null;    // "Did You Feel It?" responses
+  cdi: number | null;     // Max reported intensity
+  mmi: number | null;     // Max estimated intensity
+  alert: string | null;
+  tsunami: boolean;
+  url: string;
+  focalMechanism: FocalMechanism | null;
+  shakemapContours: ShakeMapContour[];
+}
+
+interface USGSProduct {
+  properties?: Record<string, string>;
+  contents?: Record<string, { url: string }>;
+}
+
+interface USGSDetailResponse {
+  id: string;
+  properties: {
+    mag: number;
+    place: string;
+    time: number;
+    title: string;
+    magType: string;
+    status: string;
+    felt?: number | null;
+    cdi?: number | null;
+    mmi?: number | null;
+    alert?: string | null;
+    tsunami: number;
+    url: string;
+    products?: Record<string, USGSProduct[]>;
+  };
+  geometry: { coordinates: [number, number, number] };
+}
+
+interface ShakeMapContourCollection {
+  features?: {
+    properties?: { value?: number; color?: string };
+    geometry?: { type: string; coordinates: unknown };
+  }[];
+}
+
+// Contour files have been published under both names
+const SHAKEMAP_CONTOUR_FILES = ['download/cont_mmi.json', 'download/cont_mi.json'];
+
+/**
+ * Strike, dip and rake of the preferred nodal plane — moment tensor first
+ */
+function parseFocalMechanism(products: Record<string, USGSProduct[]>): FocalMechanism | null {
+  for (const source of ['moment-tensor', 'focal-mechanism'] as const) {
+    const props = products[source]?.[0]?.properties;
+    if (!props) continue;
+    const strike = Number(props['nodal-plane-1-strike']);
+    const dip = Number(props['nodal-plane-1-dip']);
+    const rake = Number(props['nodal-plane-1-rake'] ?? props['nodal-plane-1-slip']);
+    if ([strike, dip, rake].every(Number.isFinite)) {
+      return { strike, dip, rake, source };
+    }
+  }
+  return null;
+}
+
+function parseHexColor(hex: string | undefined): [number, number, number] {
+  const match = hex?.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  return match
+    ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)]
+    : [255, 255, 255];
+}
+
+function parseShakeMapContours(collection: ShakeMapContourCollection): ShakeMapContour[] {
+  return (collection.features ?? []).flatMap(feature => {
+    const { geometry, properties } = feature;
+    if (!geometry || typeof properties?.value !== 'number') return [];
+    const lines = geometry.type === 'MultiLineString'
+      ? geometry.coordinates as [number, number][][]
+      : geometry.type === 'LineString' ? [geometry.coordinates as [number, number][]] : [];
+    return lines.map(path => ({ path, mmi: properties.value!, color: parseHexColor(properties.color) }));
+  });
+}
+
+async function loadShakeMapContours(products: Record<string, USGSProduct[]>, fetcher: JsonFetcher): Promise<ShakeMapContour[]> {
+  const contents = products.shakemap?.[0]?.contents;
+  const file = SHAKEMAP_CONTOUR_FILES.find(name => contents?.[name]);
+  if (!contents || !file) return [];
+
+  try {
+    return parseShakeMapContours(await fetcher(contents[file].url) as ShakeMapContourCollection);
+  } catch (error) {
+    console.warn('Failed to load ShakeMap contours:', error);
+    return [];
+  }
+}
+
+/**
+ * Load an event's detail GeoJSON (`properties.detail` of the summary feed)
+ * and, when it has one, its ShakeMap contours
+ */
+export async function loadEarthquakeDetail(detailUrl: string, fetcher: JsonFetcher = currentFetcher): Promise<EarthquakeDetail> {
+  const data = await fetcher(detailUrl) as USGSDetailResponse;
+  if (!data?.properties || !data.geometry?.coordinates) {
+    throw new Error('Invalid USGS detail format');
+  }
+
+  const { properties, geometry } = data;
+  const products = properties.products ?? {};
+
+  return {
+    id: data.id,
+    title: properties.title,
+    place: properties.place,
+    time: properties.time,
+    depthKm: geometry.coordinates[2] ?? 0,
+    magnitude: properties.mag,
+    magType: properties.magType,
+    status: properties.status,
+    felt: properties.felt ?? null,
+    cdi: properties.cdi ?? null,
+    mmi: properties.mmi ?? null,
+    alert: properties.alert ?? null,
+    tsunami: properties.tsunami === 1,
+    url: properties.url,
+    focalMechanism: parseFocalMechanism(products),
+    shakemapContours: await loadShakeMapContours(products, fetcher),
+  };
+}
+
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII'];
+
+/**
+ * Modified Mercalli intensity as a Roman numeral
+ */
+export function formatIntensity(mmi: number): string {
+  return ROMAN_NUMERALS[Math.min(11, Math.max(0, Math.round(mmi) - 1))];
+}
+
+// ── Focal mechanism ───────────────────────────────────────────────────
+
+const TO_RAD = Math.PI / 180;
+
+/**
+ * P-wave radiation of a double couple (Aki & Richards, x north, y east,
+ * z down). Positive is compression — the shaded quadrants of a beachball.
+ */
+export function getRadiationPattern({ strike, dip, rake }: FocalMechanism): (north: number, east: number, down: number) => number {
+  const φ = strike * TO_RAD;
+  const δ = dip * TO_RAD;
+  const λ = rake * TO_RAD;
+
+  const mxx = -(Math.sin(δ) * Math.cos(λ) * Math.sin(2 * φ) + Math.sin(2 * δ) * Math.sin(λ) * Math.sin(φ) ** 2);
+  const mxy = Math.sin(δ) * Math.cos(λ) * Math.cos(2 * φ) + 0.5 * Math.sin(2 * δ) * Math.sin(λ) * Math.sin(2 * φ);
+  const mxz = -(Math.cos(δ) * Math.cos(λ) * Math.cos(φ) + Math.cos(2 * δ) * Math.sin(λ) * Math.sin(φ));
+  const myy = Math.sin(δ) * Math.cos(λ) * Math.sin(2 * φ) - Math.sin(2 * δ) * Math.sin(λ) * Math.cos(φ) ** 2;
+  const myz = -(Math.cos(δ) * Math.cos(λ) * Math.sin(φ) - Math.cos(2 * δ) * Math.sin(λ) * Math.cos(φ));
+  const mzz = Math.sin(2 * δ) * Math.sin(λ);
+
+  return (x, y, z) =>
+    mxx * x * x + myy * y * y + mzz * z * z + 2 * (mxy * x * y + mxz * x * z + myz * y * z);
+}
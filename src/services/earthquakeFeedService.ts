@@ -0,0 +1,77 @@
+/**
+ * Earthquake Feed Service - Which USGS summary feed to load and how to filter it
+ * https://earthquake.usgs.gov/earthquakes/feed/v1.0/geojson.php
+ */
+
+import { CONFIG } from '../config';
+import { safeSyncOperation } from '../utils/errorHandler';
+
+export type EarthquakeFeedRange = 'hour' | 'day' | 'week' | 'month';
+
+export interface EarthquakeFeedSettings {
+  range: EarthquakeFeedRange;
+  significantOnly: boolean; // USGS "significant" feeds instead of magnitude cut-offs
+  minMagnitude: number;
+}
+
+export const EARTHQUAKE_FEED_RANGES: { key: EarthquakeFeedRange; label: string }[] = [
+  { key: 'hour', label: 'Hour' },
+  { key: 'day', label: 'Day' },
+  { key: 'week', label: 'Week' },
+  { key: 'month', label: 'Month' },
+];
+
+export function getDefaultEarthquakeFeedSettings(): EarthquakeFeedSettings {
+  return {
+    range: CONFIG.styles.earthquakes.defaultFeedRange,
+    significantOnly: false,
+    minMagnitude: CONFIG.styles.earthquakes.minMagnitudeDisplay,
+  };
+}
+
+/**
+ * Smallest USGS feed that still holds every earthquake above the minimum —
+ * M4.5+ over a month is a few hundred events, all magnitudes is 10,000+
+ */
+export function getEarthquakeFeedUrl(settings: EarthquakeFeedSettings): string {
+  const { apiBaseUrl, feedMagnitudes } = CONFIG.styles.earthquakes;
+  const cutoff = feedMagnitudes.find(magnitude => magnitude <= settings.minMagnitude);
+  const magnitude = settings.significantOnly ? 'significant' : cutoff !== undefined ? cutoff.toFixed(1) : 'all';
+  return `${apiBaseUrl}${magnitude}_${settings.range}.geojson`;
+}
+
+/**
+ * Simple localStorage helpers
+ */
+const STORAGE_KEY = 'earthquake_feed_settings';
+
+export function saveEarthquakeFeedSettings(settings: EarthquakeFeedSettings): void {
+  safeSyncOperation(
+    () => localStorage.setItem(STORAGE_KEY, JSON.stringify(settings)),
+    'save earthquake feed settings',
+    undefined
+  );
+}
+
+export function loadEarthquakeFeedSettings(): EarthquakeFeedSettings {
+  return safeSyncOperation(
+    () => {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        const { min, max } = CONFIG.styles.earthquakes.magnitudeSlider;
+        if (
+          EARTHQUAKE_FEED_RANGES.some(({ key }) => key === parsed?.range) &&
+          typeof parsed.significantOnly === 'boolean' &&
+          typeof parsed.minMagnitude === 'number' &&
+          parsed.minMagnitude >= min && parsed.minMagnitude <= max
+        ) {
+          return parsed;
+        }
+      }
+      return getDefaultEarthquakeFeedSettings();
+    },
+    'load earthquake feed settings',
+    getDefaultEarthquakeFeedSettings()
+  );
+}
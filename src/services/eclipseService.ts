@@ -0,0 +1,176 @@
+import {
+  Body, Equator, Horizon, NextGlobalSolarEclipse, NextLunarEclipse, Observer,
+  SearchGlobalSolarEclipse, SearchLocalSolarEclipse, SearchLunarEclipse,
+} from 'astronomy-engine';
+import type { EclipseEvent } from 'astronomy-engine';
+import { safeSyncOperation } from '../utils/errorHandler';
+import type { City } from './simpleCityService';
+
+export type EclipseBody = 'solar' | 'lunar';
+
+export interface EclipseSummary {
+  id: string;
+  body: EclipseBody;
+  kind: string;                           // total | annular | partial | penumbral
+  peak: Date;
+  peakPosition: [number, number] | null;  // central solar eclipses only
+  obscuration: number | null;
+  semiDurations: { penumbral: number; partial: number; total: number } | null; // lunar, minutes
+}
+
+export interface ContactEvent {
+  time: Date;
+  altitude: number; // of the eclipsed body, degrees
+}
+
+export interface CityEclipseContacts {
+  kind: string;
+  visible: boolean;                 // any contact happens above the horizon
+  obscuration: number | null;       // solar only
+  begin: ContactEvent;
+  totalBegin: ContactEvent | null;
+  peak: ContactEvent;
+  totalEnd: ContactEvent | null;
+  end: ContactEvent;
+}
+
+const HALF_DAY_MS = 12 * 60 * 60 * 1000;
+
+// The list only changes when the simulated clock crosses an eclipse — cache per UTC date
+let upcomingCache: { key: string; eclipses: EclipseSummary[] } | null = null;
+
+/**
+ * The next `count` solar and lunar eclipses after `from`, in date order.
+ */
+export function getUpcomingEclipses(from: Date, count: number): EclipseSummary[] {
+  const key = `${from.toISOString().slice(0, 10)}|${count}`;
+  if (upcomingCache?.key === key) return upcomingCache.eclipses;
+
+  const eclipses = safeSyncOperation(
+    () => {
+      const found: EclipseSummary[] = [];
+
+      let solar = SearchGlobalSolarEclipse(from);
+      let lunar = SearchLunarEclipse(from);
+      for (let i = 0; i < count; i++) {
+        found.push({
+          id: `solar-${solar.peak.date.toISOString()}`,
+          body: 'solar',
+          kind: solar.kind,
+          peak: solar.peak.date,
+          peakPosition: solar.latitude !== undefined && solar.longitude !== undefined
+            ? [solar.longitude, solar.latitude]
+            : null,
+          obscuration: solar.obscuration ?? null,
+          semiDurations: null,
+        });
+        found.push({
+          id: `lunar-${lunar.peak.date.toISOString()}`,
+          body: 'lunar',
+          kind: lunar.kind,
+          peak: lunar.peak.date,
+          peakPosition: null,
+          obscuration: lunar.obscuration,
+          semiDurations: { penumbral: lunar.sd_penum, partial: lunar.sd_partial, total: lunar.sd_total },
+        });
+        solar = NextGlobalSolarEclipse(solar.peak);
+        lunar = NextLunarEclipse(lunar.peak);
+      }
+
+      return found.sort((a, b) => a.peak.getTime() - b.peak.getTime()).slice(0, count);
+    },
+    'search upcoming eclipses',
+    [] as EclipseSummary[]
+  );
+
+  upcomingCache = { key, eclipses };
+  return eclipses;
+}
+
+/**
+ * "Total solar eclipse", "Penumbral lunar eclipse", ...
+ */
+export function formatEclipseName(eclipse: EclipseSummary): string {
+  const kind = eclipse.kind.charAt(0).toUpperCase() + eclipse.kind.slice(1);
+  return `${kind} ${eclipse.body} eclipse`;
+}
+
+// ── Local circumstances ──────────────────────────────────────────────
+
+const contactsCache = new Map<string, CityEclipseContacts | null>();
+const CONTACTS_CACHE_LIMIT = 200;
+
+function computeSolarContacts(eclipse: EclipseSummary, city: City): CityEclipseContacts | null {
+  const [lon, lat] = city.coordinates;
+  const local = SearchLocalSolarEclipse(new Date(eclipse.peak.getTime() - HALF_DAY_MS), new Observer(lat, lon, 0));
+
+  // The search returns the next eclipse seen from here — maybe a later one
+  if (Math.abs(local.peak.time.date.getTime() - eclipse.peak.getTime()) > HALF_DAY_MS) return null;
+
+  const toContact = (e: EclipseEvent): ContactEvent => ({ time: e.time.date, altitude: e.altitude });
+  const begin = toContact(local.partial_begin);
+  const peak = toContact(local.peak);
+  const end = toContact(local.partial_end);
+
+  return {
+    kind: local.kind,
+    visible: begin.altitude > 0 || peak.altitude > 0 || end.altitude > 0,
+    obscuration: local.obscuration,
+    begin,
+    totalBegin: local.total_begin ? toContact(local.total_begin) : null,
+    peak,
+    totalEnd: local.total_end ? toContact(local.total_end) : null,
+    end,
+  };
+}
+
+function computeLunarContacts(eclipse: EclipseSummary, city: City): CityEclipseContacts | null {
+  if (!eclipse.semiDurations) return null;
+  const [lon, lat] = city.coordinates;
+  const observer = new Observer(lat, lon, 0);
+
+  const moonAt = (offsetMinutes: number): ContactEvent => {
+    const time = new Date(eclipse.peak.getTime() + offsetMinutes * 60000);
+    const equator = Equator(Body.Moon, time, observer, true, true);
+    return { time, altitude: Horizon(time, observer, equator.ra, equator.dec, 'normal').altitude };
+  };
+
+  // Contacts of the umbral phase when there is one, otherwise the penumbral
+  const { penumbral, partial, total } = eclipse.semiDurations;
+  const outer = partial > 0 ? partial : penumbral;
+  const begin = moonAt(-outer);
+  const peak = moonAt(0);
+  const end = moonAt(outer);
+
+  return {
+    kind: eclipse.kind,
+    visible: begin.altitude > 0 || peak.altitude > 0 || end.altitude > 0,
+    obscuration: null,
+    begin,
+    totalBegin: total > 0 ? moonAt(-total) : null,
+    peak,
+    totalEnd: total > 0 ? moonAt(total) : null,
+    end,
+  };
+}
+
+/**
+ * Contact times and eclipsed-body altitudes for one city, or null when the
+ * eclipse cannot be seen there at all.
+ */
+export function getCityEclipseContacts(eclipse: EclipseSummary, city: City): CityEclipseContacts | null {
+  const key = `${eclipse.id}|${city.id}|${city.coordinates.join(',')}`;
+  if (contactsCache.has(key)) return contactsCache.get(key)!;
+
+  const contacts = safeSyncOperation(
+    () => eclipse.body === 'solar'
+      ? computeSolarContacts(eclipse, city)
+      : computeLunarContacts(eclipse, city),
+    `compute eclipse contacts for ${city.name}`,
+    null
+  );
+
+  if (contactsCache.size >= CONTACTS_CACHE_LIMIT) contactsCache.clear();
+  contactsCache.set(key, contacts);
+  return contacts;
+}
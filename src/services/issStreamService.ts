@@ -0,0 +1,73 @@
+/**
+ * ISS Stream Service - Livestreams for the ISS video overlay
+ * Loads the stream list from the runtime manifest in public/data, validated
+ * against its schema, so NASA's rotating stream IDs need no rebuild. The
+ * streams in CONFIG stand in when the manifest is missing or invalid.
+ */
+
+import { CONFIG } from '../config';
+
+export interface ISSStream {
+  id: string;    // YouTube video ID
+  label: string;
+}
+
+// YouTube video IDs are 11 characters of [A-Za-z0-9_-]
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+
+/**
+ * Check a parsed manifest against its schema:
+ *   { updated?: string, streams: [{ id: string, label: string }, ...] }
+ * Throws with the first problem found; duplicate IDs are dropped.
+ */
+export function validateStreamManifest(data: unknown): ISSStream[] {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Stream manifest is not an object');
+  }
+
+  const { updated, streams } = data as { updated?: unknown; streams?: unknown };
+  if (updated !== undefined && typeof updated !== 'string') {
+    throw new Error('Stream manifest "updated" must be a string');
+  }
+  if (!Array.isArray(streams) || streams.length === 0) {
+    throw new Error('Stream manifest has no streams');
+  }
+
+  const seen = new Set<string>();
+  return streams.flatMap((stream, index) => {
+    const { id, label } = (stream ?? {}) as { id?: unknown; label?: unknown };
+    if (typeof id !== 'string' || !VIDEO_ID_PATTERN.test(id)) {
+      throw new Error(`Stream ${index} has an invalid video id`);
+    }
+    if (typeof label !== 'string' || !label.trim()) {
+      throw new Error(`Stream ${index} has no label`);
+    }
+    if (seen.has(id)) return [];
+    seen.add(id);
+    return [{ id, label: label.trim() }];
+  });
+}
+
+let streamsPromise: Promise<ISSStream[]> | null = null;
+
+/**
+ * ISS livestreams from the runtime manifest, in failover order.
+ * Falls back to the streams in CONFIG if the manifest is missing or invalid.
+ */
+export function loadISSStreams(): Promise<ISSStream[]> {
+  if (!streamsPromise) {
+    streamsPromise = (async () => {
+      try {
+        const response = await fetch(CONFIG.styles.iss.streamManifestPath, { cache: 'no-cache' });
+        if (!response.ok) {
+          throw new Error(`Stream manifest error: ${response.status} ${response.statusText}`);
+        }
+        return validateStreamManifest(await response.json());
+      } catch (error) {
+        console.warn('Using built-in ISS streams:', error);
+        return [...CONFIG.styles.iss.fallbackStreams];
+      }
+    })();
+  }
+  return streamsPromise;
+}
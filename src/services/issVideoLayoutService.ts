@@ -0,0 +1,72 @@
+/**
+ * ISS Video Layout Service - Where the ISS video window sits
+ * The window is pinned to the station, docked to a screen corner or floating;
+ * its mode, position and size persist in localStorage.
+ */
+
+import { safeSyncOperation } from '../utils/errorHandler';
+import { CONFIG } from '../config';
+
+export type VideoWindowMode = 'pinned' | 'docked' | 'floating';
+export type VideoDockCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface VideoWindowLayout {
+  mode: VideoWindowMode;
+  corner: VideoDockCorner;   // used when docked
+  left: number;              // used when floating
+  top: number;
+  width: number;
+  height: number;
+}
+
+const LAYOUT_STORAGE_KEY = 'iss_video_layout';
+const MODES: VideoWindowMode[] = ['pinned', 'docked', 'floating'];
+const CORNERS: VideoDockCorner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+export function getDefaultVideoLayout(): VideoWindowLayout {
+  const { defaultWidth, defaultHeight } = CONFIG.styles.iss.videoWindow;
+  return { mode: 'pinned', corner: 'bottom-right', left: 0, top: 0, width: defaultWidth, height: defaultHeight };
+}
+
+/**
+ * Keep a stored layout usable: size within the configured bounds, and the
+ * window on screen even if the browser is now smaller than when it was saved
+ */
+function clampVideoLayout(layout: VideoWindowLayout): VideoWindowLayout {
+  const { minWidth, minHeight, maxWidth, maxHeight } = CONFIG.styles.iss.videoWindow;
+  const width = Math.max(minWidth, Math.min(maxWidth, layout.width));
+  const height = Math.max(minHeight, Math.min(maxHeight, layout.height));
+  return {
+    mode: layout.mode,
+    corner: layout.corner,
+    width,
+    height,
+    left: Math.max(0, Math.min(layout.left, window.innerWidth - width)),
+    top: Math.max(0, Math.min(layout.top, window.innerHeight - height)),
+  };
+}
+
+export function saveVideoLayout(layout: VideoWindowLayout): void {
+  safeSyncOperation(
+    () => localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layout)),
+    'save ISS video layout',
+    undefined
+  );
+}
+
+export function loadVideoLayout(): VideoWindowLayout {
+  return safeSyncOperation(
+    () => {
+      const stored = localStorage.getItem(LAYOUT_STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        const isValid = MODES.includes(parsed?.mode) && CORNERS.includes(parsed?.corner)
+          && ['left', 'top', 'width', 'height'].every(key => Number.isFinite(parsed[key]));
+        if (isValid) return clampVideoLayout(parsed);
+      }
+      return getDefaultVideoLayout();
+    },
+    'load ISS video layout',
+    getDefaultVideoLayout()
+  );
+}
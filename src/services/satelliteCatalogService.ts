@@ -0,0 +1,62 @@
+import { safeSyncOperation } from '../utils/errorHandler';
+import { CONFIG } from '../config';
+
+export type SatelliteKind = typeof CONFIG.satellites.catalog[number]['kind'] | 'generic';
+
+export interface SatelliteInfo {
+  noradId: number;
+  name: string | null; // null: not in the catalog — use the TLE name
+  kind: SatelliteKind;
+  color: [number, number, number];
+}
+
+/**
+ * Catalog entry for a NORAD ID, or a generic one with a stable color
+ */
+export function getSatelliteInfo(noradId: number): SatelliteInfo {
+  const entry = CONFIG.satellites.catalog.find(s => s.noradId === noradId);
+  if (entry) return entry;
+
+  const { customColors } = CONFIG.satellites;
+  return { noradId, name: null, kind: 'generic', color: customColors[noradId % customColors.length] };
+}
+
+/**
+ * Parse user input as a NORAD catalog number (1–999999)
+ */
+export function parseNoradId(input: string): number | null {
+  const trimmed = input.trim();
+  if (!/^\d{1,6}$/.test(trimmed)) return null;
+  const id = Number(trimmed);
+  return id > 0 ? id : null;
+}
+
+/**
+ * Simple localStorage helpers
+ */
+const STORAGE_KEY = 'satellites_tracked';
+
+export function saveTrackedSatellites(noradIds: number[]): void {
+  safeSyncOperation(
+    () => localStorage.setItem(STORAGE_KEY, JSON.stringify(noradIds)),
+    'save tracked satellites',
+    undefined
+  );
+}
+
+export function loadTrackedSatellites(): number[] {
+  return safeSyncOperation(
+    () => {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        if (Array.isArray(parsed) && parsed.every(id => Number.isInteger(id) && id > 0)) {
+          return parsed;
+        }
+      }
+      return [...CONFIG.satellites.defaultTracked];
+    },
+    'load tracked satellites',
+    [...CONFIG.satellites.defaultTracked]
+  );
+}
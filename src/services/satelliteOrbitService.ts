@@ -0,0 +1,325 @@
+import {
+  degreesLat, degreesLong, ecfToEci, ecfToLookAngles, eciToEcf, eciToGeodetic, geodeticToEcf, gstime, jday,
+  propagate, shadowFraction, sunPos, twoline2satrec,
+  type EciVec3, type GeodeticLocation, type SatRec,
+} from 'satellite.js';
+import { CONFIG } from '../config';
+
+export interface TleRecord {
+  noradId: number;
+  name: string;
+  line1: string;
+  line2: string;
+}
+
+interface TleBundle {
+  updated: string;
+  satellites: TleRecord[];
+}
+
+/** Satellite state at one instant, propagated with SGP4 */
+export interface SatelliteState {
+  time: Date;
+  latitude: number;
+  longitude: number;
+  altitude: number;          // km above the ellipsoid
+  velocity: number;          // km/h, inertial
+  sunlit: boolean;
+  footprintKm: number;       // diameter of the area that can see the satellite
+  eciKm: [number, number, number];
+}
+
+const EARTH_RADIUS_KM = 6378.137;
+const AU_KM = 149597870.7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TO_RAD = Math.PI / 180;
+const TO_DEG = 180 / Math.PI;
+
+// ── TLE loading — bundled file first, CelesTrak as fallback ──────────
+
+// In-flight or successful bundle request, shared by concurrent callers;
+// a failed load is dropped so the next caller tries again
+let bundleRequest: { promise: Promise<TleBundle | null>; startedAt: number } | null = null;
+const tleCache = new Map<number, TleRecord>();
+
+async function loadTleBundle(): Promise<TleBundle | null> {
+  try {
+    const response = await fetch(CONFIG.satellites.tle.dataPath);
+    if (response.ok) {
+      const data = await response.json();
+      if (Array.isArray(data.satellites)) return data;
+    }
+  } catch (error) {
+    console.warn('Failed to load bundled TLEs:', error);
+  }
+  return null;
+}
+
+function fetchTleBundle(): Promise<TleBundle | null> {
+  if (!bundleRequest || Date.now() - bundleRequest.startedAt >= CONFIG.satellites.tle.refreshIntervalMs) {
+    const request = { promise: loadTleBundle(), startedAt: Date.now() };
+    bundleRequest = request;
+    request.promise.then(bundle => {
+      if (!bundle && bundleRequest === request) bundleRequest = null;
+    });
+  }
+  return bundleRequest.promise;
+}
+
+async function fetchRemoteTle(noradId: number): Promise<TleRecord> {
+  const response = await fetch(`${CONFIG.satellites.tle.remoteUrl}?CATNR=${noradId}&FORMAT=TLE`);
+  if (!response.ok) {
+    throw new Error(`TLE API error: ${response.status} ${response.statusText}`);
+  }
+
+  const lines = (await response.text()).split('\n').map(line => line.trim()).filter(Boolean);
+  const line1 = lines.find(line => line.startsWith('1 '));
+  const line2 = lines.find(line => line.startsWith('2 '));
+  if (!line1 || !line2) {
+    throw new Error(`No TLE found for NORAD ${noradId}`);
+  }
+
+  return { noradId, name: lines[0].startsWith('1 ') ? `NORAD ${noradId}` : lines[0], line1, line2 };
+}
+
+/**
+ * Epoch of a TLE (columns 19–32 of line 1: two-digit year + fractional day)
+ */
+export function getTleEpoch(tle: TleRecord): Date {
+  const year = Number(tle.line1.slice(18, 20));
+  const dayOfYear = Number(tle.line1.slice(20, 32));
+  const fullYear = year < 57 ? 2000 + year : 1900 + year;
+  return new Date(Date.UTC(fullYear, 0, 1) + (dayOfYear - 1) * DAY_MS);
+}
+
+/**
+ * Latest TLE for a satellite. The bundled file is refreshed by a scheduled
+ * workflow; CelesTrak is only asked when it is missing the satellite or has
+ * gone stale, and a stale bundled TLE still beats none.
+ */
+export async function loadTle(noradId: number): Promise<TleRecord> {
+  const bundle = await fetchTleBundle();
+  const local = bundle?.satellites.find(s => s.noradId === noradId) ?? tleCache.get(noradId);
+  const maxAgeMs = CONFIG.satellites.tle.maxAgeDays * DAY_MS;
+
+  let record: TleRecord;
+  if (local && Date.now() - getTleEpoch(local).getTime() <= maxAgeMs) {
+    record = local;
+  } else {
+    try {
+      record = await fetchRemoteTle(noradId);
+    } catch (error) {
+      if (!local) throw error;
+      record = local;
+    }
+  }
+
+  tleCache.set(noradId, record);
+  return record;
+}
+
+/**
+ * Orbital period from the mean motion (line 2, columns 53–63, revs/day)
+ */
+export function getOrbitalPeriodMinutes(tle: TleRecord): number {
+  return 1440 / Number(tle.line2.slice(52, 63));
+}
+
+// ── Propagation ──────────────────────────────────────────────────────
+
+const satrecCache = new Map<string, SatRec>();
+
+function getSatrec(tle: TleRecord): SatRec {
+  const key = `${tle.line1}|${tle.line2}`;
+  let satrec = satrecCache.get(key);
+  if (!satrec) {
+    satrec = twoline2satrec(tle.line1, tle.line2);
+    satrecCache.set(key, satrec);
+  }
+  return satrec;
+}
+
+/**
+ * Position, velocity and illumination at any instant — no network needed
+ */
+export function propagateSatellite(tle: TleRecord, time: Date): SatelliteState | null {
+  const result = propagate(getSatrec(tle), time);
+  if (!result) return null;
+
+  const { position, velocity } = result;
+  const geodetic = eciToGeodetic(position, gstime(time));
+  const speedKmS = Math.hypot(velocity.x, velocity.y, velocity.z);
+  const altitude = geodetic.height;
+
+  return {
+    time,
+    latitude: degreesLat(geodetic.latitude),
+    longitude: degreesLong(geodetic.longitude),
+    altitude,
+    velocity: speedKmS * 3600,
+    sunlit: shadowFraction(sunPos(jday(time)).rsun, position) < 1,
+    footprintKm: 2 * EARTH_RADIUS_KM * Math.acos(EARTH_RADIUS_KM / (EARTH_RADIUS_KM + altitude)),
+    eciKm: [position.x, position.y, position.z],
+  };
+}
+
+/**
+ * States every `stepSeconds` from `start` to `end` inclusive
+ */
+export function propagateTrack(tle: TleRecord, start: Date, end: Date, stepSeconds: number): SatelliteState[] {
+  const track: SatelliteState[] = [];
+  for (let t = start.getTime(); t <= end.getTime(); t += stepSeconds * 1000) {
+    const state = propagateSatellite(tle, new Date(t));
+    if (state) track.push(state);
+  }
+  return track;
+}
+
+// ── Visible pass prediction ──────────────────────────────────────────
+
+export interface PassObserver {
+  id: string;
+  latitude: number;
+  longitude: number;
+}
+
+/** The part of a pass where the satellite is above `minElevation`, sunlit, and the sky is dark */
+export interface VisiblePass {
+  start: Date;
+  peak: Date;
+  end: Date;
+  maxElevation: number;   // degrees
+  startAzimuth: number;   // degrees from north
+  peakAzimuth: number;
+  endAzimuth: number;
+  magnitude: number;      // brightest estimated visual magnitude
+}
+
+interface PassSample {
+  time: Date;
+  elevation: number;
+  azimuth: number;
+  visible: boolean;
+  magnitude: number;
+}
+
+/**
+ * Fraction of a diffuse sphere's disc that is lit, seen at phase angle β
+ */
+function diffuseSpherePhase(β: number): number {
+  return (Math.sin(β) + (Math.PI - β) * Math.cos(β)) / Math.PI;
+}
+
+function sampleObserver(satrec: SatRec, observer: GeodeticLocation, time: Date): PassSample | null {
+  const result = propagate(satrec, time);
+  if (!result) return null;
+
+  const gmst = gstime(time);
+  const { position } = result;
+  const look = ecfToLookAngles(observer, eciToEcf(position, gmst));
+  const elevation = look.elevation * TO_DEG;
+  const azimuth = look.azimuth * TO_DEG;
+  const { passes } = CONFIG.satellites;
+  if (elevation < passes.minElevation) {
+    return { time, elevation, azimuth, visible: false, magnitude: Infinity };
+  }
+
+  const rsun = sunPos(jday(time)).rsun;
+  const sunKm: EciVec3<number> = { x: rsun.x * AU_KM, y: rsun.y * AU_KM, z: rsun.z * AU_KM };
+  const sunElevation = ecfToLookAngles(observer, eciToEcf(sunKm, gmst)).elevation * TO_DEG;
+  const sunlit = shadowFraction(rsun, position) < 1;
+  if (!sunlit || sunElevation > passes.maxSunElevation) {
+    return { time, elevation, azimuth, visible: false, magnitude: Infinity };
+  }
+
+  // Phase angle at the satellite between the sun and the observer
+  const observerEci = ecfToEci(geodeticToEcf(observer), gmst);
+  const toSun = [sunKm.x - position.x, sunKm.y - position.y, sunKm.z - position.z];
+  const toObserver = [observerEci.x - position.x, observerEci.y - position.y, observerEci.z - position.z];
+  const cosβ = (toSun[0] * toObserver[0] + toSun[1] * toObserver[1] + toSun[2] * toObserver[2])
+    / (Math.hypot(...toSun) * Math.hypot(...toObserver));
+  const β = Math.acos(Math.max(-1, Math.min(1, cosβ)));
+  const magnitude = passes.standardMagnitude
+    + 5 * Math.log10(look.rangeSat / 1000)
+    - 2.5 * Math.log10(diffuseSpherePhase(β) / diffuseSpherePhase(Math.PI / 2));
+
+  return { time, elevation, azimuth, visible: true, magnitude };
+}
+
+/**
+ * Visible passes over each observer from `start` for `CONFIG.satellites.passes.days`.
+ * A coarse scan finds when the satellite clears `minElevation`; each of those
+ * windows is then resampled finely to find the visible part, its peak and
+ * its brightness.
+ */
+export function predictVisiblePasses(tle: TleRecord, observers: PassObserver[], start: Date): Record<string, VisiblePass[]> {
+  const { days, coarseStepSeconds, fineStepSeconds } = CONFIG.satellites.passes;
+  const satrec = getSatrec(tle);
+  const coarseMs = coarseStepSeconds * 1000;
+  const endMs = start.getTime() + days * DAY_MS;
+
+  // Satellite position is shared by every observer — propagate once per step
+  const coarse: { time: Date; gmst: number; position: EciVec3<number> }[] = [];
+  for (let t = start.getTime(); t <= endMs; t += coarseMs) {
+    const time = new Date(t);
+    const result = propagate(satrec, time);
+    if (result) coarse.push({ time, gmst: gstime(time), position: result.position });
+  }
+
+  const results: Record<string, VisiblePass[]> = {};
+  observers.forEach(observer => {
+    const geodetic: GeodeticLocation = {
+      latitude: observer.latitude * TO_RAD,
+      longitude: observer.longitude * TO_RAD,
+      height: 0,
+    };
+    const minElevation = CONFIG.satellites.passes.minElevation * TO_RAD;
+    const passes: VisiblePass[] = [];
+
+    let windowStart: number | null = null;
+    coarse.forEach(({ time, gmst, position }, i) => {
+      const above = ecfToLookAngles(geodetic, eciToEcf(position, gmst)).elevation >= minElevation;
+      if (above && windowStart === null) windowStart = i;
+      if ((!above || i === coarse.length - 1) && windowStart !== null) {
+        // Pad by one coarse step each side so the fine scan catches rise and set
+        const from = coarse[Math.max(0, windowStart - 1)].time.getTime();
+        const to = time.getTime();
+        windowStart = null;
+
+        const samples: PassSample[] = [];
+        for (let t = from; t <= to; t += fineStepSeconds * 1000) {
+          const sample = sampleObserver(satrec, geodetic, new Date(t));
+          if (sample?.visible) samples.push(sample);
+        }
+        if (samples.length === 0) return;
+
+        const peak = samples.reduce((best, s) => s.elevation > best.elevation ? s : best);
+        const first = samples[0];
+        const last = samples[samples.length - 1];
+        passes.push({
+          start: first.time,
+          peak: peak.time,
+          end: last.time,
+          maxElevation: peak.elevation,
+          startAzimuth: first.azimuth,
+          peakAzimuth: peak.azimuth,
+          endAzimuth: last.azimuth,
+          magnitude: Math.min(...samples.map(s => s.magnitude)),
+        });
+      }
+    });
+
+    results[observer.id] = passes;
+  });
+
+  return results;
+}
+
+const COMPASS_POINTS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+/**
+ * 16-point compass direction for an azimuth in degrees
+ */
+export function formatCompassDirection(azimuth: number): string {
+  return COMPASS_POINTS[Math.round((((azimuth % 360) + 360) % 360) / 22.5) % 16];
+}
@@ -0,0 +1,213 @@
+import {
+  Body, EquatorFromVector, GeoVector, Horizon, Observer, RotateVector, Rotation_EQJ_EQD, SearchHourAngle, SearchRiseSet,
+  SiderealTime,
+} from 'astronomy-engine';
+import { safeSyncOperation } from '../utils/errorHandler';
+import type { City } from './simpleCityService';
+import type { TwilightZone } from '../layers/NightLayer';
+import { CONFIG } from '../config';
+
+export interface SolarTimes {
+  localDate: string;            // YYYY-MM-DD in the city's timezone
+  sunrise: Date | null;
+  sunset: Date | null;
+  solarNoon: Date | null;
+  dayLengthMinutes: number;
+  polar: 'day' | 'night' | null; // sun never sets / never rises on this date
+}
+
+export type LightClass = 'day' | TwilightZone | 'night';
+
+export interface SunAtPoint {
+  elevation: number;          // degrees above the horizon, refraction included
+  azimuth: number;            // degrees clockwise from north
+  apparentSolarTime: number;  // local apparent solar time, hours 0–24
+  light: LightClass;
+}
+
+// Standard sunrise/sunset altitude: refraction + solar semi-diameter
+const HORIZON_ALTITUDE = -0.833;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+function getLocalDate(timezone: string, date: Date): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+/**
+ * UTC offset of a timezone at an instant, in milliseconds
+ */
+function getTimezoneOffsetMs(timezone: string, date: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * UTC instant of local midnight starting the given local date.
+ * Offset is re-evaluated at the candidate instant so DST changes are respected.
+ */
+function getLocalMidnight(timezone: string, localDate: string): Date {
+  const [y, m, d] = localDate.split('-').map(Number);
+  const wallMidnight = Date.UTC(y, m - 1, d);
+  const firstGuess = wallMidnight - getTimezoneOffsetMs(timezone, new Date(wallMidnight));
+  return new Date(wallMidnight - getTimezoneOffsetMs(timezone, new Date(firstGuess)));
+}
+
+// Results only change once per local day — cache per city and date
+const solarTimesCache = new Map<string, SolarTimes>();
+const SOLAR_TIMES_CACHE_LIMIT = 500; // time-travel playback walks through many dates
+
+function computeSolarTimes(city: City, localDate: string): SolarTimes {
+  const [lon, lat] = city.coordinates;
+  const observer = new Observer(lat, lon, 0);
+  const dayStart = getLocalMidnight(city.timezone, localDate);
+  const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+
+  const withinDay = (t: Date | null | undefined): Date | null =>
+    t && t >= dayStart && t < dayEnd ? t : null;
+
+  const sunrise = withinDay(SearchRiseSet(Body.Sun, observer, +1, dayStart, 1)?.date);
+  const sunset = withinDay(SearchRiseSet(Body.Sun, observer, -1, dayStart, 1)?.date);
+  const noonEvent = SearchHourAngle(Body.Sun, observer, 0, dayStart, +1);
+  const solarNoon = withinDay(noonEvent.time.date);
+
+  let polar: SolarTimes['polar'] = null;
+  let dayLengthMs: number;
+
+  if (sunrise && sunset) {
+    // Sunset before sunrise means daylight wraps across local midnight
+    dayLengthMs = sunset > sunrise
+      ? sunset.getTime() - sunrise.getTime()
+      : (dayEnd.getTime() - sunrise.getTime()) + (sunset.getTime() - dayStart.getTime());
+  } else if (sunrise) {
+    dayLengthMs = dayEnd.getTime() - sunrise.getTime();
+  } else if (sunset) {
+    dayLengthMs = sunset.getTime() - dayStart.getTime();
+  } else {
+    // No crossing today: the sun's altitude at upper transit decides which
+    polar = noonEvent.hor.altitude > HORIZON_ALTITUDE ? 'day' : 'night';
+    dayLengthMs = polar === 'day' ? DAY_MS : 0;
+  }
+
+  return {
+    localDate,
+    sunrise,
+    sunset,
+    solarNoon,
+    dayLengthMinutes: Math.round(dayLengthMs / 60000),
+    polar,
+  };
+}
+
+/**
+ * Sunrise, sunset, solar noon and day length for a city on the local date
+ * that contains `currentTime` in the city's own timezone.
+ */
+export function getCitySolarTimes(city: City, currentTime: Date): SolarTimes | null {
+  return safeSyncOperation(
+    () => {
+      const localDate = getLocalDate(city.timezone, currentTime);
+      const key = `${city.id}|${city.coordinates.join(',')}|${localDate}`;
+      const cached = solarTimesCache.get(key);
+      if (cached) return cached;
+
+      const times = computeSolarTimes(city, localDate);
+      if (solarTimesCache.size >= SOLAR_TIMES_CACHE_LIMIT) solarTimesCache.clear();
+      solarTimesCache.set(key, times);
+      return times;
+    },
+    `compute solar times for ${city.name}`,
+    null
+  );
+}
+
+/**
+ * Format a day length as "12h 34m"
+ */
+export function formatDayLength(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${h}h ${m.toString().padStart(2, '0')}m`;
+}
+
+// ── Sun at an arbitrary point ────────────────────────────────────────
+
+// The sun's equatorial position depends only on time — reuse it while the
+// cursor moves. Geocentric coordinates: parallax is under 9 arcseconds.
+let sunEquatorCache: { time: number; ra: number; dec: number; gast: number } | null = null;
+
+function getSunEquator(date: Date) {
+  if (sunEquatorCache?.time !== date.getTime()) {
+    // Earth-centre vector, rotated from J2000 to the equator of date
+    const equator = EquatorFromVector(RotateVector(Rotation_EQJ_EQD(date), GeoVector(Body.Sun, date, true)));
+    sunEquatorCache = { time: date.getTime(), ra: equator.ra, dec: equator.dec, gast: SiderealTime(date) };
+  }
+  return sunEquatorCache;
+}
+
+/**
+ * Classify by the geometric altitude of the sun's centre, matching the
+ * twilight boundary lines drawn on the map.
+ */
+function classifyLight(geometricElevation: number): LightClass {
+  if (geometricElevation > HORIZON_ALTITUDE) return 'day';
+  const { twilight } = CONFIG.styles.night;
+  const zones = Object.keys(twilight) as TwilightZone[];
+  return zones.find(zone => geometricElevation >= 90 - twilight[zone].zenith) ?? 'night';
+}
+
+/**
+ * Sun elevation, azimuth, local apparent solar time and daylight/twilight
+ * class at a map point.
+ */
+export function getSunAtPoint(lon: number, lat: number, date: Date): SunAtPoint | null {
+  return safeSyncOperation(
+    () => {
+      const { ra, dec, gast } = getSunEquator(date);
+      const observer = new Observer(lat, lon, 0);
+      const refracted = Horizon(date, observer, ra, dec, 'normal');
+      const geometric = Horizon(date, observer, ra, dec);
+
+      // Hour angle 0 at local apparent noon
+      const hourAngle = gast + lon / 15 - ra;
+      const apparentSolarTime = (((hourAngle + 12) % 24) + 24) % 24;
+
+      return {
+        elevation: refracted.altitude,
+        azimuth: refracted.azimuth,
+        apparentSolarTime,
+        light: classifyLight(geometric.altitude),
+      };
+    },
+    'compute sun position at point',
+    null
+  );
+}
+
+/**
+ * Format hours 0–24 as "HH:MM"
+ */
+export function formatSolarTime(hours: number): string {
+  const totalMinutes = Math.floor(hours * 60) % (24 * 60);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+}
@@ -1,11 +1,31 @@
 import { create } from 'zustand';
 import { City, DEFAULT_CITIES, loadUserCities, saveUserCities } from '../services/simpleCityService';
-import { ISSManager } from '../layers/ISSLayer';
-import { EarthquakeManager } from '../layers/EarthquakeLayer';
+import { DEFAULT_ISS_TRACK_SETTINGS, type ISSTrackSettings } from '../layers/ISSLayer';
+import { SatelliteManager } from '../layers/SatelliteLayer';
+import { loadTrackedSatellites, saveTrackedSatellites } from '../services/satelliteCatalogService';
+import { EarthquakeManager, getEarthquakeAlerts, getLoadedEarthquakeFeedUrl } from '../layers/EarthquakeLayer';
+import {
+  loadAlertNotificationsEnabled, notifyNewAlerts, requestAlertNotificationPermission, saveAlertNotificationsEnabled,
+  type EarthquakeAlert,
+} from '../services/earthquakeAlertService';
+import {
+  getDefaultEarthquakeFeedSettings, loadEarthquakeFeedSettings, saveEarthquakeFeedSettings,
+  type EarthquakeFeedSettings,
+} from '../services/earthquakeFeedService';
+import { loadEarthquakeDetail, type EarthquakeDetail } from '../services/earthquakeDetailService';
 import { HurricaneManager } from '../layers/HurricaneLayer';
 import { TrueColorEarthManager } from '../layers/TrueColorEarthLayer';
 import { RainRadarManager } from '../layers/RainRadarLayer';
 import { AuroraManager } from '../layers/AuroraLayer';
+import { CONFIG } from '../config';
+import type { NightStyleKey, TwilightZone } from '../layers/NightLayer';
+import type { CalendarZoneDatum } from '../layers/CalendarDateLayer';
+import type { EclipseSummary } from '../services/eclipseService';
+
+export type PlaybackSpeed = typeof CONFIG.timeline.playbackSpeeds[number];
+
+/** Earthquake whose detail drawer is open — `detailUrl` is the feed's `properties.detail` */
+export type SelectedEarthquake = { id: string; detailUrl: string; title: string };
 
 
 export interface MapState {
@@ -19,20 +39,48 @@ export interface MapState {
   // Layer visibility
   showArcgisPlaces: boolean;
   showTerminator: boolean;
+  showTwilightLines: Record<TwilightZone, boolean>;
+  showMoon: boolean;
+  showMoonlitHemisphere: boolean;
+  showSunReadout: boolean;
+  showDaylight: boolean;
+  showCalendarDates: boolean;
+  selectedEclipse: EclipseSummary | null;
   showCities: boolean;
   showMountains: boolean;
   showUnesco: boolean;
   showTimezones: boolean;
+  showPlateBoundaries: boolean;
   
   
   // ISS tracking
   showISS: boolean;
   issLayers: any[];
-  issManager: ISSManager | null;
+  issManager: SatelliteManager | null; // Keeps the station's TLE fresh
   isISSLoading: boolean;
   
+  // ISS visibility footprint
+  showISSFootprint: boolean;
+
+  // Camera follows the ISS until the user pans
+  followISS: boolean;
+
+  // Orbits drawn around the station and their time ticks
+  issTrackSettings: ISSTrackSettings;
+
+  // Visible pass highlighted on the ground track (ms timestamps)
+  highlightedPass: { cityId: string; start: number; end: number } | null;
+
   // ISS video overlay
   issVideoVisible: boolean;
+
+  // Satellite tracker
+  showSatellites: boolean;
+  trackedSatellites: number[];
+  satelliteLayers: any[];
+  satelliteManager: SatelliteManager | null;
+  isSatellitesLoading: boolean;
+  satelliteLastUpdate: Date | null;
   
   // Hurricane tracking
   showHurricanes: boolean;
@@ -47,6 +95,20 @@ export interface MapState {
   earthquakeManager: EarthquakeManager | null;
   earthquakeLastUpdate: Date | null;
   isEarthquakesLoading: boolean;
+  earthquakeFeedSettings: EarthquakeFeedSettings;
+
+  // Pitched view with events drawn at their depth
+  showEarthquakeDepth3D: boolean;
+
+  // Orange/red PAGER and tsunami events, newest first
+  earthquakeAlerts: EarthquakeAlert[];
+  earthquakeAlertNotifications: boolean;
+
+  // Clicked earthquake and its USGS detail (focal mechanism, ShakeMap)
+  selectedEarthquake: SelectedEarthquake | null;
+  earthquakeDetail: EarthquakeDetail | null;
+  isEarthquakeDetailLoading: boolean;
+  earthquakeDetailError: string | null;
 
   // True-color daily Earth (NASA GIBS)
   showTrueColorEarth: boolean;
@@ -71,16 +133,26 @@ export interface MapState {
 
   // Night visualization
   showNight: boolean;
-  nightStyle: 'off' | 'masked';
+  nightStyle: NightStyleKey;
 
   // Timezone layers
   timezoneLayers: any[];
+  calendarZones: CalendarZoneDatum[];
+
+  // Tectonic plate boundary layers
+  plateBoundaryLayers: any[];
   
   // Menu state
   isMenuOpen: boolean;
   
   // Centralized time management
   currentTime: Date;
+
+  // Time travel — simulated clock anchored to a wall-clock instant
+  isLive: boolean;
+  isPlaying: boolean;
+  playbackSpeed: PlaybackSpeed;
+  timeAnchor: { simulated: number; wall: number };
   
   // City management
   cities: City[];
@@ -92,12 +164,26 @@ export interface MapState {
   setSelectedBasemap: (basemap: 'usgs' | 'arcgis' | 'eox') => void;
   toggleArcgisPlaces: () => void;
   toggleTerminator: () => void;
+  toggleTwilightLine: (zone: TwilightZone) => void;
+  toggleMoon: () => void;
+  toggleMoonlitHemisphere: () => void;
+  toggleSunReadout: () => void;
+  toggleDaylight: () => void;
+  toggleCalendarDates: () => void;
+  setSelectedEclipse: (eclipse: EclipseSummary | null) => void;
   toggleCities: () => void;
   toggleMountains: () => void;
   toggleUnesco: () => void;
   toggleTimezones: () => void;
+  togglePlateBoundaries: () => void;
   toggleMenu: () => void;
   updateTime: () => void;
+
+  // Time travel actions
+  setSimulatedTime: (date: Date) => void;
+  setPlaybackSpeed: (speed: PlaybackSpeed) => void;
+  togglePlayback: () => void;
+  jumpToLive: () => void;
   
   
   // ISS actions
@@ -106,9 +192,33 @@ export interface MapState {
   initializeISSManager: () => Promise<void>;
   destroyISSManager: () => void;
   
+  // ISS footprint actions
+  toggleISSFootprint: () => void;
+
+  // ISS follow actions
+  toggleFollowISS: () => void;
+  setFollowISS: (follow: boolean) => void;
+
+  // ISS ground track actions
+  setISSTrackSettings: (changes: Partial<ISSTrackSettings>) => void;
+
+  // ISS pass actions
+  setHighlightedPass: (pass: { cityId: string; start: number; end: number } | null) => void;
+
   // ISS video actions
   setISSVideoVisible: (visible: boolean) => void;
   hideISSVideo: () => void;
+
+  // Satellite tracker actions
+  toggleSatellites: () => void;
+  setSatelliteLayers: (layers: any[]) => void;
+  initializeSatelliteManager: () => Promise<void>;
+  destroySatelliteManager: () => void;
+  addSatellite: (noradId: number) => void;
+  removeSatellite: (noradId: number) => void;
+  resetSatellites: () => void;
+  setTrackedSatellites: (noradIds: number[]) => void;
+  loadSavedSatellites: () => void;
   
   // Hurricane actions
   toggleHurricanes: () => void;
@@ -123,6 +233,14 @@ export interface MapState {
   initializeEarthquakeManager: () => Promise<void>;
   destroyEarthquakeManager: () => void;
   setEarthquakeLastUpdate: (timestamp: Date | null) => void;
+  setEarthquakeFeedSettings: (changes: Partial<EarthquakeFeedSettings>) => void;
+  loadSavedEarthquakeFeedSettings: () => void;
+  toggleEarthquakeDepth3D: () => void;
+  refreshEarthquakeAlerts: () => void;
+  toggleEarthquakeAlertNotifications: () => Promise<void>;
+  loadSavedEarthquakeAlertNotifications: () => void;
+  selectEarthquake: (earthquake: SelectedEarthquake) => Promise<void>;
+  closeEarthquakeDetail: () => void;
 
   // True-color Earth actions
   toggleTrueColorEarth: () => void;
@@ -144,10 +262,14 @@ export interface MapState {
   destroyAuroraManager: () => void;
   setAuroraLastUpdate: (timestamp: Date | null) => void;
 
-  setNightStyle: (style: 'off' | 'masked') => void;
+  setNightStyle: (style: NightStyleKey) => void;
 
   // Timezone actions
   setTimezoneLayers: (layers: any[]) => void;
+  setCalendarZones: (zones: CalendarZoneDatum[]) => void;
+
+  // Plate boundary actions
+  setPlateBoundaryLayers: (layers: any[]) => void;
   
   // City actions
   addCity: (city: City) => void;
@@ -164,14 +286,32 @@ export const useMapStore = create<MapState>((set, get) => ({
   selectedBasemap: 'eox', // Default to EOX Sentinel-2 Cloudless
   showArcgisPlaces: false,
   showTerminator: false,
+  showTwilightLines: { civil: false, nautical: false, astronomical: false },
+  showMoon: false,
+  showMoonlitHemisphere: false,
+  showSunReadout: true,
+  showDaylight: false,
+  showCalendarDates: false,
+  selectedEclipse: null,
   showCities: true,
   showMountains: false,
   showUnesco: false,
   showTimezones: false,
+  showPlateBoundaries: false,
   showISS: false,
   issLayers: [],
   issManager: null,
   isISSLoading: false,
+  showSatellites: false,
+  trackedSatellites: [],
+  satelliteLayers: [],
+  satelliteManager: null,
+  isSatellitesLoading: false,
+  satelliteLastUpdate: null,
+  showISSFootprint: true,
+  followISS: false,
+  issTrackSettings: DEFAULT_ISS_TRACK_SETTINGS,
+  highlightedPass: null,
   issVideoVisible: false,
   showHurricanes: false,
   hurricaneLayers: [],
@@ -183,6 +323,14 @@ export const useMapStore = create<MapState>((set, get) => ({
   earthquakeManager: null,
   earthquakeLastUpdate: null,
   isEarthquakesLoading: false,
+  earthquakeFeedSettings: getDefaultEarthquakeFeedSettings(),
+  showEarthquakeDepth3D: false,
+  earthquakeAlerts: [],
+  earthquakeAlertNotifications: false,
+  selectedEarthquake: null,
+  earthquakeDetail: null,
+  isEarthquakeDetailLoading: false,
+  earthquakeDetailError: null,
   showTrueColorEarth: false,
   trueColorEarthLayers: [],
   trueColorEarthManager: null,
@@ -198,10 +346,16 @@ export const useMapStore = create<MapState>((set, get) => ({
   auroraLastUpdate: null,
   isAuroraLoading: false,
   showNight: false,
-  nightStyle: 'off' as 'off' | 'masked',
+  nightStyle: 'off' as NightStyleKey,
   timezoneLayers: [],
+  calendarZones: [],
+  plateBoundaryLayers: [],
   isMenuOpen: false,
   currentTime: new Date(),
+  isLive: true,
+  isPlaying: true,
+  playbackSpeed: 1,
+  timeAnchor: { simulated: Date.now(), wall: Date.now() },
   cities: [...DEFAULT_CITIES], // Start with defaults
   isAddingCity: false,
 
@@ -268,23 +422,78 @@ export const useMapStore = create<MapState>((set, get) => ({
   },
   
   toggleTerminator: () => set({ showTerminator: !get().showTerminator }),
+  toggleTwilightLine: (zone) => {
+    const { showTwilightLines } = get();
+    set({ showTwilightLines: { ...showTwilightLines, [zone]: !showTwilightLines[zone] } });
+  },
+  toggleMoon: () => set({ showMoon: !get().showMoon }),
+  toggleMoonlitHemisphere: () => set({ showMoonlitHemisphere: !get().showMoonlitHemisphere }),
+  toggleSunReadout: () => set({ showSunReadout: !get().showSunReadout }),
+  toggleDaylight: () => set({ showDaylight: !get().showDaylight }),
+  toggleCalendarDates: () => set({ showCalendarDates: !get().showCalendarDates }),
+  setSelectedEclipse: (eclipse) => set({ selectedEclipse: eclipse }),
   toggleCities: () => set({ showCities: !get().showCities }),
   toggleMountains: () => set({ showMountains: !get().showMountains }),
   toggleUnesco: () => set({ showUnesco: !get().showUnesco }),
   toggleTimezones: () => set({ showTimezones: !get().showTimezones }),
+  togglePlateBoundaries: () => set({ showPlateBoundaries: !get().showPlateBoundaries }),
   
   toggleMenu: () => {
     set({ isMenuOpen: !get().isMenuOpen });
   },
   
   updateTime: () => {
-    set({ currentTime: new Date() });
+    set({ currentTime: getSimulatedTime(get()) });
+  },
+
+  // Time travel actions
+  setSimulatedTime: (date) => {
+    set({
+      isLive: false,
+      currentTime: date,
+      timeAnchor: { simulated: date.getTime(), wall: Date.now() },
+    });
+  },
+
+  setPlaybackSpeed: (speed) => {
+    const now = getSimulatedTime(get());
+    set({
+      playbackSpeed: speed,
+      isPlaying: true,
+      // Anything faster than real time leaves live mode
+      isLive: get().isLive && speed === 1,
+      currentTime: now,
+      timeAnchor: { simulated: now.getTime(), wall: Date.now() },
+    });
+  },
+
+  togglePlayback: () => {
+    const now = getSimulatedTime(get());
+    set({
+      isPlaying: !get().isPlaying,
+      // Pausing freezes the clock, so it is no longer live
+      isLive: false,
+      currentTime: now,
+      timeAnchor: { simulated: now.getTime(), wall: Date.now() },
+    });
+  },
+
+  jumpToLive: () => {
+    const now = Date.now();
+    set({
+      isLive: true,
+      isPlaying: true,
+      playbackSpeed: 1,
+      currentTime: new Date(now),
+      timeAnchor: { simulated: now, wall: now },
+    });
   },
 
 
   // ISS actions
   toggleISS: () => {
-    set({ showISS: !get().showISS });
+    const showISS = !get().showISS;
+    set(showISS ? { showISS } : { showISS, followISS: false });
   },
 
   setISSLayers: (layers) => {
@@ -297,7 +506,7 @@ export const useMapStore = create<MapState>((set, get) => ({
 
     try {
       set({ isISSLoading: true });
-      const manager = new ISSManager();
+      const manager = new SatelliteManager([CONFIG.satellites.issNoradId]);
       await manager.initialize();
       set({ issManager: manager, isISSLoading: false });
     } catch (error) {
@@ -313,6 +522,88 @@ export const useMapStore = create<MapState>((set, get) => ({
     }
   },
 
+  toggleSatellites: () => {
+    set({ showSatellites: !get().showSatellites });
+  },
+
+  setSatelliteLayers: (layers) => {
+    set({ satelliteLayers: layers });
+  },
+
+  initializeSatelliteManager: async () => {
+    const { satelliteManager, trackedSatellites } = get();
+    if (satelliteManager) return; // Already initialized
+
+    try {
+      set({ isSatellitesLoading: true });
+      const manager = new SatelliteManager(trackedSatellites);
+      await manager.initialize();
+      set({ satelliteManager: manager, isSatellitesLoading: false, satelliteLastUpdate: new Date() });
+    } catch (error) {
+      set({ isSatellitesLoading: false });
+    }
+  },
+
+  destroySatelliteManager: () => {
+    const { satelliteManager } = get();
+    if (satelliteManager) {
+      satelliteManager.destroy();
+      set({ satelliteManager: null, satelliteLayers: [] });
+    }
+  },
+
+  addSatellite: (noradId) => {
+    const { trackedSatellites } = get();
+    if (trackedSatellites.includes(noradId) || trackedSatellites.length >= CONFIG.satellites.maxTracked) return;
+    get().setTrackedSatellites([...trackedSatellites, noradId]);
+  },
+
+  removeSatellite: (noradId) => {
+    get().setTrackedSatellites(get().trackedSatellites.filter(id => id !== noradId));
+  },
+
+  resetSatellites: () => {
+    get().setTrackedSatellites([...CONFIG.satellites.defaultTracked]);
+  },
+
+  setTrackedSatellites: (noradIds) => {
+    set({ trackedSatellites: noradIds });
+    saveTrackedSatellites(noradIds);
+
+    // Redraw once the manager has the TLEs for newly added satellites
+    get().satelliteManager?.setTracked(noradIds)
+      .then(() => set({ satelliteLastUpdate: new Date() }));
+  },
+
+  loadSavedSatellites: () => {
+    set({ trackedSatellites: loadTrackedSatellites() });
+  },
+
+  toggleISSFootprint: () => set({ showISSFootprint: !get().showISSFootprint }),
+
+  toggleFollowISS: () => {
+    // Following needs the station on the map
+    if (!get().followISS && !get().showISS) return;
+    set({ followISS: !get().followISS });
+  },
+
+  setFollowISS: (follow) => set({ followISS: follow }),
+
+  setISSTrackSettings: (changes) => {
+    const { trajectoryMaxOrbits } = CONFIG.styles.iss;
+    const clampOrbits = (orbits: number) => Math.max(0, Math.min(trajectoryMaxOrbits, Math.round(orbits)));
+    const next = { ...get().issTrackSettings, ...changes };
+    set({
+      issTrackSettings: {
+        ...next,
+        pastOrbits: clampOrbits(next.pastOrbits),
+        futureOrbits: clampOrbits(next.futureOrbits),
+      },
+    });
+  },
+
+  setHighlightedPass: (pass) => set({ highlightedPass: pass }),
+
   setISSVideoVisible: (visible) => {
     set({ issVideoVisible: visible });
   },
@@ -361,7 +652,14 @@ export const useMapStore = create<MapState>((set, get) => ({
 
   // Earthquake actions
   toggleEarthquakes: () => {
-    set({ showEarthquakes: !get().showEarthquakes });
+    const showEarthquakes = !get().showEarthquakes;
+    // The depth view and detail drawer have nothing to show without earthquakes
+    if (showEarthquakes) {
+      set({ showEarthquakes });
+      return;
+    }
+    set({ showEarthquakes, showEarthquakeDepth3D: false });
+    get().closeEarthquakeDetail();
   },
 
   setEarthquakeLayers: (layers) => {
@@ -374,9 +672,10 @@ export const useMapStore = create<MapState>((set, get) => ({
 
     try {
       set({ isEarthquakesLoading: true });
-      const manager = new EarthquakeManager();
+      const manager = new EarthquakeManager(get().earthquakeFeedSettings, get().refreshEarthquakeAlerts);
       await manager.initialize();
       set({ earthquakeManager: manager, isEarthquakesLoading: false });
+      get().refreshEarthquakeAlerts();
     } catch (error) {
       set({ isEarthquakesLoading: false });
     }
@@ -386,7 +685,8 @@ export const useMapStore = create<MapState>((set, get) => ({
     const { earthquakeManager } = get();
     if (earthquakeManager) {
       earthquakeManager.destroy();
-      set({ earthquakeManager: null, earthquakeLayers: [] });
+      set({ earthquakeManager: null, earthquakeLayers: [], earthquakeAlerts: [] });
+      get().closeEarthquakeDetail();
     }
   },
 
@@ -394,6 +694,83 @@ export const useMapStore = create<MapState>((set, get) => ({
     set({ earthquakeLastUpdate: timestamp });
   },
 
+  setEarthquakeFeedSettings: (changes) => {
+    const settings = { ...get().earthquakeFeedSettings, ...changes };
+    set({ earthquakeFeedSettings: settings });
+    saveEarthquakeFeedSettings(settings);
+
+    // Refetch (or re-filter) — the layers redraw when loading finishes
+    const { earthquakeManager } = get();
+    if (!earthquakeManager) return;
+    set({ isEarthquakesLoading: true });
+    earthquakeManager.setSettings(settings)
+      .finally(() => {
+        set({ isEarthquakesLoading: false });
+        get().refreshEarthquakeAlerts();
+      });
+  },
+
+  loadSavedEarthquakeFeedSettings: () => {
+    set({ earthquakeFeedSettings: loadEarthquakeFeedSettings() });
+  },
+
+  toggleEarthquakeDepth3D: () => {
+    const showEarthquakeDepth3D = !get().showEarthquakeDepth3D;
+    set(showEarthquakeDepth3D ? { showEarthquakeDepth3D, showEarthquakes: true } : { showEarthquakeDepth3D });
+  },
+
+  refreshEarthquakeAlerts: () => {
+    // Runs after every download so a newly loaded feed seeds the seen set
+    const alerts = getEarthquakeAlerts();
+    notifyNewAlerts(alerts, getLoadedEarthquakeFeedUrl(), get().earthquakeAlertNotifications);
+
+    const current = get().earthquakeAlerts;
+    const unchanged = alerts.length === current.length && alerts.every((alert, i) =>
+      alert.id === current[i].id && alert.pagerLevel === current[i].pagerLevel && alert.tsunami === current[i].tsunami
+    );
+    if (!unchanged) set({ earthquakeAlerts: alerts });
+  },
+
+  toggleEarthquakeAlertNotifications: async () => {
+    // Only switch on once the browser allows notifications
+    const enabled = !get().earthquakeAlertNotifications && await requestAlertNotificationPermission();
+    set({ earthquakeAlertNotifications: enabled });
+    saveAlertNotificationsEnabled(enabled);
+  },
+
+  loadSavedEarthquakeAlertNotifications: () => {
+    set({ earthquakeAlertNotifications: loadAlertNotificationsEnabled() });
+  },
+
+  selectEarthquake: async (earthquake) => {
+    if (get().selectedEarthquake?.id === earthquake.id) return;
+    set({
+      selectedEarthquake: earthquake,
+      earthquakeDetail: null,
+      isEarthquakeDetailLoading: true,
+      earthquakeDetailError: null,
+    });
+
+    try {
+      const detail = await loadEarthquakeDetail(earthquake.detailUrl);
+      // Another earthquake may have been clicked while this one loaded
+      if (get().selectedEarthquake?.id !== earthquake.id) return;
+      set({ earthquakeDetail: detail, isEarthquakeDetailLoading: false });
+    } catch (error) {
+      if (get().selectedEarthquake?.id !== earthquake.id) return;
+      set({ isEarthquakeDetailLoading: false, earthquakeDetailError: 'USGS detail unavailable' });
+    }
+  },
+
+  closeEarthquakeDetail: () => {
+    set({
+      selectedEarthquake: null,
+      earthquakeDetail: null,
+      isEarthquakeDetailLoading: false,
+      earthquakeDetailError: null,
+    });
+  },
+
   // True-color Earth actions
   toggleTrueColorEarth: () => {
     set({ showTrueColorEarth: !get().showTrueColorEarth });
@@ -494,6 +871,15 @@ export const useMapStore = create<MapState>((set, get) => ({
     set({ timezoneLayers: layers });
   },
 
+  setCalendarZones: (zones) => {
+    set({ calendarZones: zones });
+  },
+
+  // Plate boundary actions
+  setPlateBoundaryLayers: (layers) => {
+    set({ plateBoundaryLayers: layers });
+  },
+
   // City management
   addCity: (city) => {
     const currentCities = get().cities;
@@ -526,3 +912,16 @@ export const useMapStore = create<MapState>((set, get) => ({
     set({ cities: savedCities });
   },
 }));
+
+/**
+ * Resolve the simulated clock: wall time when live, otherwise the anchor
+ * advanced by elapsed wall time × playback speed (frozen while paused).
+ */
+export function getSimulatedTime(
+  state: Pick<MapState, 'isLive' | 'isPlaying' | 'playbackSpeed' | 'timeAnchor'>
+): Date {
+  if (state.isLive) return new Date();
+  if (!state.isPlaying) return new Date(state.timeAnchor.simulated);
+  const elapsed = Date.now() - state.timeAnchor.wall;
+  return new Date(state.timeAnchor.simulated + elapsed * state.playbackSpeed);
+}
@@ -0,0 +1,319 @@
+/**
+ * Solar eclipse geometry — the Moon's shadow projected onto the Earth.
+ *
+ * Sun and Moon geocentric vectors come from astronomy-engine and are rotated
+ * into an Earth-fixed frame. The shadow axis is intersected with the WGS84
+ * ellipsoid (scaled to a sphere along z) to trace the centre line; the
+ * umbra/antumbra radius follows from similar triangles on the Sun–Moon cone:
+ *   r(s) = R☾ − s·(R☉ − R☾)/D
+ * where s is the distance behind the Moon and D the Sun–Moon distance.
+ * Positive r is an umbra (total), negative an antumbra (annular).
+ *
+ * Path limits follow rays parallel to the axis offset by |r|; the partial
+ * region is sampled on a lon/lat grid.
+ */
+import {
+  Body, GeoVector, RotateVector, Rotation_EQJ_EQD, SiderealTime,
+} from 'astronomy-engine';
+import type { Position } from 'geojson';
+
+const TO_RAD = Math.PI / 180;
+const TO_DEG = 180 / Math.PI;
+const AU_KM = 149597870.7;
+const EARTH_EQUATORIAL_KM = 6378.137;
+const EARTH_POLAR_KM = 6356.752;
+const EARTH_MEAN_KM = 6371.0;
+const EARTH_E2 = 1 - (EARTH_POLAR_KM / EARTH_EQUATORIAL_KM) ** 2;
+const SUN_RADIUS_KM = 695700;
+const MOON_RADIUS_KM = 1737.4;
+const MERCATOR_LIMIT = 85;
+
+type Vec3 = [number, number, number];
+
+export interface CenterlinePoint {
+  time: Date;
+  position: [number, number];
+  kind: 'total' | 'annular';
+  limits: [[number, number], [number, number]] | null; // null near the path ends
+  widthKm: number | null;
+}
+
+export interface PartialEclipseGrid {
+  width: number;
+  height: number;
+  resolution: number;
+  magnitude: Float32Array;        // row 0 = northernmost, max eclipse magnitude per cell
+  greatest: { position: [number, number]; magnitude: number };
+}
+
+/**
+ * Sun and Moon positions (km) in the Earth-fixed frame:
+ * x towards (0°, 0°), y towards (0°, 90°E), z towards the north pole.
+ */
+function getEarthFixedBodies(date: Date): { sun: Vec3; moon: Vec3 } {
+  const rotation = Rotation_EQJ_EQD(date);
+  const theta = SiderealTime(date) * 15 * TO_RAD;
+  const cosT = Math.cos(theta);
+  const sinT = Math.sin(theta);
+
+  const toEarthFixed = (body: Body): Vec3 => {
+    const v = RotateVector(rotation, GeoVector(body, date, true));
+    return [
+      (v.x * cosT + v.y * sinT) * AU_KM,
+      (-v.x * sinT + v.y * cosT) * AU_KM,
+      v.z * AU_KM,
+    ];
+  };
+
+  return { sun: toEarthFixed(Body.Sun), moon: toEarthFixed(Body.Moon) };
+}
+
+interface ShadowAxis {
+  sun: Vec3;
+  moon: Vec3;
+  dir: Vec3; // unit vector from the Moon away from the Sun
+}
+
+function getShadowAxis(date: Date): ShadowAxis {
+  const { sun, moon } = getEarthFixedBodies(date);
+  const d: Vec3 = [moon[0] - sun[0], moon[1] - sun[1], moon[2] - sun[2]];
+  const len = Math.hypot(d[0], d[1], d[2]);
+  return { sun, moon, dir: [d[0] / len, d[1] / len, d[2] / len] };
+}
+
+/**
+ * First point where a ray meets the ellipsoid, or null when it misses.
+ */
+function intersectEarth(origin: Vec3, dir: Vec3): Vec3 | null {
+  // Work in z-stretched space, where the ellipsoid is a sphere
+  const k = EARTH_EQUATORIAL_KM / EARTH_POLAR_KM;
+  const o: Vec3 = [origin[0], origin[1], origin[2] * k];
+  let u: Vec3 = [dir[0], dir[1], dir[2] * k];
+  const uLen = Math.hypot(u[0], u[1], u[2]);
+  u = [u[0] / uLen, u[1] / uLen, u[2] / uLen];
+
+  const b = o[0] * u[0] + o[1] * u[1] + o[2] * u[2];
+  const c = o[0] * o[0] + o[1] * o[1] + o[2] * o[2] - EARTH_EQUATORIAL_KM ** 2;
+  const disc = b * b - c;
+  if (disc < 0) return null;
+
+  // Nearer root — the sunlit side facing the Moon
+  const t = -b - Math.sqrt(disc);
+  return [o[0] + t * u[0], o[1] + t * u[1], (o[2] + t * u[2]) / k];
+}
+
+function toGeodetic(p: Vec3): [number, number] {
+  const lon = Math.atan2(p[1], p[0]) * TO_DEG;
+  const lat = Math.atan2(p[2], (1 - EARTH_E2) * Math.hypot(p[0], p[1])) * TO_DEG;
+  return [lon, lat];
+}
+
+/**
+ * Where the shadow axis crosses the plane through the Earth's centre
+ * perpendicular to it — tracks how the shadow moves over the ground.
+ */
+function fundamentalPlanePoint(axis: ShadowAxis): Vec3 {
+  const { moon, dir } = axis;
+  const along = moon[0] * dir[0] + moon[1] * dir[1] + moon[2] * dir[2];
+  return [moon[0] - along * dir[0], moon[1] - along * dir[1], moon[2] - along * dir[2]];
+}
+
+/**
+ * Centre point and path limits at an instant, or null when the shadow axis
+ * passes the Earth by. Limits are rays parallel to the axis, offset by the
+ * shadow radius across the direction of motion, so the path widens
+ * naturally where the Sun is low.
+ */
+function getCenterlinePoint(date: Date): CenterlinePoint | null {
+  const axis = getShadowAxis(date);
+  const center = intersectEarth(axis.moon, axis.dir);
+  if (!center) return null;
+
+  const { sun, moon, dir } = axis;
+  const behindMoon = Math.hypot(center[0] - moon[0], center[1] - moon[1], center[2] - moon[2]);
+  const sunMoon = Math.hypot(moon[0] - sun[0], moon[1] - sun[1], moon[2] - sun[2]);
+  const shadowRadius = MOON_RADIUS_KM - behindMoon * (SUN_RADIUS_KM - MOON_RADIUS_KM) / sunMoon;
+
+  // Shadow motion over the (rotating) Earth, half a minute either side
+  const before = fundamentalPlanePoint(getShadowAxis(new Date(date.getTime() - 30000)));
+  const after = fundamentalPlanePoint(getShadowAxis(new Date(date.getTime() + 30000)));
+  const v: Vec3 = [after[0] - before[0], after[1] - before[1], after[2] - before[2]];
+  const w: Vec3 = [
+    dir[1] * v[2] - dir[2] * v[1],
+    dir[2] * v[0] - dir[0] * v[2],
+    dir[0] * v[1] - dir[1] * v[0],
+  ];
+  const wLen = Math.hypot(w[0], w[1], w[2]);
+  const r = Math.abs(shadowRadius) / wLen;
+
+  const left = intersectEarth([moon[0] + w[0] * r, moon[1] + w[1] * r, moon[2] + w[2] * r], dir);
+  const right = intersectEarth([moon[0] - w[0] * r, moon[1] - w[1] * r, moon[2] - w[2] * r], dir);
+
+  return {
+    time: date,
+    position: toGeodetic(center),
+    kind: shadowRadius > 0 ? 'total' : 'annular',
+    limits: left && right ? [toGeodetic(left), toGeodetic(right)] : null,
+    widthKm: left && right
+      ? Math.hypot(left[0] - right[0], left[1] - right[1], left[2] - right[2])
+      : null,
+  };
+}
+
+/**
+ * Sample the centre line of a central eclipse around its peak.
+ * Returns the contiguous run of instants when the shadow axis touches the Earth.
+ */
+export function getEclipseCenterline(
+  peak: Date,
+  windowMinutes: number,
+  stepMinutes: number
+): CenterlinePoint[] {
+  const points: CenterlinePoint[] = [];
+  for (let minutes = -windowMinutes; minutes <= windowMinutes; minutes += stepMinutes) {
+    const point = getCenterlinePoint(new Date(peak.getTime() + minutes * 60000));
+    if (point) {
+      points.push(point);
+    } else if (points.length > 0) {
+      break; // Shadow has left the Earth
+    }
+  }
+  return points;
+}
+
+/**
+ * Split a sequence wherever consecutive longitudes jump across the
+ * antimeridian, so Mercator renderers never draw a line across the map.
+ */
+export function splitAtAntimeridian<T>(items: T[], getLon: (item: T) => number): T[][] {
+  const runs: T[][] = [];
+  let run: T[] = [];
+  for (const item of items) {
+    if (run.length > 0 && Math.abs(getLon(item) - getLon(run[run.length - 1])) > 180) {
+      runs.push(run);
+      run = [];
+    }
+    run.push(item);
+  }
+  if (run.length > 0) runs.push(run);
+  return runs;
+}
+
+/**
+ * Northern/southern limits of the central path as polygon rings, one ring
+ * per stretch where both limits reach the ground without crossing the
+ * antimeridian.
+ */
+export function getEclipsePathPolygons(centerline: CenterlinePoint[]): Position[][] {
+  const rings: Position[][] = [];
+  let stretch: [number, number][][] = [];
+
+  const flush = () => {
+    if (stretch.length > 1) {
+      const ring: Position[] = [
+        ...stretch.map(l => l[0]),
+        ...stretch.map(l => l[1]).reverse(),
+      ];
+      ring.push(ring[0]);
+      rings.push(ring);
+    }
+    stretch = [];
+  };
+
+  for (const point of centerline) {
+    if (!point.limits) {
+      flush();
+      continue;
+    }
+    const prev = stretch[stretch.length - 1];
+    if (prev && (
+      Math.abs(point.limits[0][0] - prev[0][0]) > 180 ||
+      Math.abs(point.limits[1][0] - prev[1][0]) > 180
+    )) {
+      flush();
+    }
+    stretch.push(point.limits);
+  }
+  flush();
+
+  return rings;
+}
+
+/**
+ * Maximum eclipse magnitude (fraction of the Sun's diameter covered) seen
+ * from each cell of a lon/lat grid while the Sun is above the horizon.
+ * Rows run from +85° down to −85° to match a Mercator-clipped bitmap.
+ */
+export function getPartialEclipseGrid(
+  peak: Date,
+  windowMinutes: number,
+  stepMinutes: number,
+  resolution: number
+): PartialEclipseGrid {
+  const width = Math.round(360 / resolution);
+  const height = Math.round((2 * MERCATOR_LIMIT) / resolution);
+  const magnitude = new Float32Array(width * height);
+
+  // Unit vectors of each cell centre (spherical Earth is plenty at grid scale)
+  const normals = new Float64Array(width * height * 3);
+  for (let row = 0; row < height; row++) {
+    const lat = (MERCATOR_LIMIT - (row + 0.5) * resolution) * TO_RAD;
+    for (let col = 0; col < width; col++) {
+      const lon = (-180 + (col + 0.5) * resolution) * TO_RAD;
+      const i = (row * width + col) * 3;
+      normals[i] = Math.cos(lat) * Math.cos(lon);
+      normals[i + 1] = Math.cos(lat) * Math.sin(lon);
+      normals[i + 2] = Math.sin(lat);
+    }
+  }
+
+  for (let minutes = -windowMinutes; minutes <= windowMinutes; minutes += stepMinutes) {
+    const { sun, moon } = getEarthFixedBodies(new Date(peak.getTime() + minutes * 60000));
+
+    for (let cell = 0; cell < width * height; cell++) {
+      const nx = normals[cell * 3];
+      const ny = normals[cell * 3 + 1];
+      const nz = normals[cell * 3 + 2];
+
+      const sx = sun[0] - nx * EARTH_MEAN_KM;
+      const sy = sun[1] - ny * EARTH_MEAN_KM;
+      const sz = sun[2] - nz * EARTH_MEAN_KM;
+      if (sx * nx + sy * ny + sz * nz <= 0) continue; // Sun below the horizon
+
+      const mx = moon[0] - nx * EARTH_MEAN_KM;
+      const my = moon[1] - ny * EARTH_MEAN_KM;
+      const mz = moon[2] - nz * EARTH_MEAN_KM;
+
+      const sunDist = Math.hypot(sx, sy, sz);
+      const moonDist = Math.hypot(mx, my, mz);
+      const sunRadius = Math.asin(SUN_RADIUS_KM / sunDist);
+      const moonRadius = Math.asin(MOON_RADIUS_KM / moonDist);
+      const cosSep = (sx * mx + sy * my + sz * mz) / (sunDist * moonDist);
+      const separation = Math.acos(Math.min(1, cosSep));
+
+      const mag = (sunRadius + moonRadius - separation) / (2 * sunRadius);
+      if (mag > magnitude[cell]) magnitude[cell] = Math.min(1, mag);
+    }
+  }
+
+  let best = 0;
+  for (let cell = 1; cell < magnitude.length; cell++) {
+    if (magnitude[cell] > magnitude[best]) best = cell;
+  }
+  const bestRow = Math.floor(best / width);
+  const bestCol = best % width;
+
+  return {
+    width,
+    height,
+    resolution,
+    magnitude,
+    greatest: {
+      position: [
+        -180 + (bestCol + 0.5) * resolution,
+        MERCATOR_LIMIT - (bestRow + 0.5) * resolution,
+      ],
+      magnitude: magnitude[best],
+    },
+  };
+}
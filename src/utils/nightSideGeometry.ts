@@ -11,12 +11,17 @@
  * Solved via half-angle tangent substitution (t = tan(φ/2)), which
  * reduces to a quadratic with solutions directly in the valid range.
  */
-import { Body, Equator, Observer, SiderealTime } from 'astronomy-engine';
+import {
+  Body, Equator, EquatorFromVector, GeoVector, Observer, RotateVector,
+  Rotation_EQJ_EQD, SiderealTime,
+} from 'astronomy-engine';
 import type { Feature, Position } from 'geojson';
 
 const MERCATOR_LIMIT = 85;
 const TO_RAD = Math.PI / 180;
 const TO_DEG = 180 / Math.PI;
+const EARTH_RADIUS_KM = 6378.137;
+const AU_KM = 149597870.7;
 
 /**
  * Compute the subsolar point (where the sun is directly overhead).
@@ -31,6 +36,32 @@ export function getSubsolarPoint(date: Date): [number, number] {
   return [lon, equator.dec];
 }
 
+/**
+ * Compute the sublunar point (where the Moon is directly overhead) and the
+ * Moon's geocentric distance. Geocentric rather than topocentric — the Moon's
+ * ~1° parallax would otherwise shift the point noticeably.
+ */
+export function getSublunarPoint(date: Date): { point: [number, number]; distanceKm: number } {
+  const eqj = GeoVector(Body.Moon, date, true);
+  const equator = EquatorFromVector(RotateVector(Rotation_EQJ_EQD(date), eqj));
+  const gst = SiderealTime(date);
+
+  let lon = (equator.ra - gst) * 15;
+  lon = ((lon % 360) + 540) % 360 - 180;
+
+  return { point: [lon, equator.dec], distanceKm: equator.dist * AU_KM };
+}
+
+/**
+ * Generate the region where the Moon is above the horizon.
+ * The circle is slightly smaller than a hemisphere because of lunar parallax.
+ */
+export function getMoonVisibilityPolygon(date: Date, precision: number = 1): Feature {
+  const { point, distanceKm } = getSublunarPoint(date);
+  const parallax = Math.asin(EARTH_RADIUS_KM / distanceKm) * TO_DEG;
+  return toMercatorPolygon(point, 90 - parallax, precision);
+}
+
 /**
  * Get the antisolar point (center of the night hemisphere).
  */
@@ -189,3 +220,220 @@ export function getTerminatorLine(
   };
 }
 
+/**
+ * Trace the boundary of a spherical circle as Mercator-safe open paths.
+ *
+ * Pole-including circles: a single west→east path, one latitude per longitude.
+ * Other circles: each contiguous run of longitudes becomes one path — upper
+ * boundary (west→east) then lower boundary (east→west), closed only when the
+ * run does not reach the antimeridian.
+ */
+function circleBoundaryPaths(
+  center: [number, number],
+  radiusDegrees: number,
+  precision: number
+): Position[][] {
+  const clampLat = (lat: number) => Math.max(-MERCATOR_LIMIT, Math.min(MERCATOR_LIMIT, lat));
+
+  // A circle wider than a hemisphere has the same boundary as the smaller
+  // circle around the antipode — normalise so the pole tests below hold.
+  if (radiusDegrees > 90) {
+    center = [center[0] > 0 ? center[0] - 180 : center[0] + 180, -center[1]];
+    radiusDegrees = 180 - radiusDegrees;
+  }
+
+  const includesNorthPole = 90 - center[1] < radiusDegrees;
+  const includesSouthPole = 90 + center[1] < radiusDegrees;
+
+  if (includesNorthPole || includesSouthPole) {
+    const path: Position[] = [];
+    for (let lon = -180; lon <= 180; lon += precision) {
+      const lats = circleBoundaryLats(center[0], center[1], radiusDegrees, lon);
+      if (lats.length === 0) continue;
+      const lat = lats.length === 2
+        ? (includesSouthPole ? Math.max(lats[0], lats[1]) : Math.min(lats[0], lats[1]))
+        : lats[0];
+      path.push([lon, clampLat(lat)]);
+    }
+    return path.length > 1 ? [path] : [];
+  }
+
+  // Tangent points at the circle's western/eastern extremes, so arcs close
+  // on the true edge rather than on the last sampled longitude
+  const φ0 = center[1] * TO_RAD;
+  const r = radiusDegrees * TO_RAD;
+  const halfWidth = Math.asin(Math.min(1, Math.sin(r) / Math.cos(φ0))) * TO_DEG;
+  const tangentLat = clampLat(Math.asin(Math.max(-1, Math.min(1, Math.sin(φ0) / Math.cos(r)))) * TO_DEG);
+  const normLon = (lon: number) => ((lon % 360) + 540) % 360 - 180;
+  const westTangent: Position = [normLon(center[0] - halfWidth), tangentLat];
+  const eastTangent: Position = [normLon(center[0] + halfWidth), tangentLat];
+
+  const paths: Position[][] = [];
+  let upper: Position[] = [];
+  let lower: Position[] = [];
+  let runStartsAtEdge = false;
+
+  const flushRun = (endsAtEdge: boolean) => {
+    if (upper.length > 0) {
+      const ring: Position[] = [];
+      if (!runStartsAtEdge) ring.push(westTangent);
+      ring.push(...upper);
+      if (!endsAtEdge) ring.push(eastTangent);
+      ring.push(...lower.reverse());
+      if (!runStartsAtEdge) ring.push(westTangent);
+      paths.push(ring);
+    }
+    upper = [];
+    lower = [];
+  };
+
+  for (let lon = -180; lon <= 180; lon += precision) {
+    const lats = circleBoundaryLats(center[0], center[1], radiusDegrees, lon);
+    if (lats.length === 0) {
+      flushRun(false);
+      continue;
+    }
+    if (upper.length === 0) runStartsAtEdge = lon === -180;
+    const hi = lats.length === 2 ? Math.max(lats[0], lats[1]) : lats[0];
+    const lo = lats.length === 2 ? Math.min(lats[0], lats[1]) : lats[0];
+    upper.push([lon, clampLat(hi)]);
+    lower.push([lon, clampLat(lo)]);
+  }
+  flushRun(true);
+
+  return paths;
+}
+
+/**
+ * Generate the line where the sun sits at a given zenith angle.
+ *
+ * 90° is the terminator; 96°, 102° and 108° are the ends of civil, nautical
+ * and astronomical twilight. Returned as a MultiLineString because circles
+ * that miss both poles split into separate arcs in Mercator.
+ */
+export function getSolarZenithLine(
+  date: Date,
+  zenithDegrees: number,
+  precision: number = 1
+): Feature {
+  const center = getSubsolarPoint(date);
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'MultiLineString',
+      coordinates: circleBoundaryPaths(center, zenithDegrees, precision),
+    },
+    properties: { zenith: zenithDegrees },
+  };
+}
+
+// ── Daylight duration by latitude ─────────────────────────────────────
+
+// Sun's centre at sunrise/sunset: refraction + solar semi-diameter
+const SUNRISE_ALTITUDE = -0.833;
+
+/**
+ * Hours of daylight at a latitude for a given solar declination, from the
+ * sunrise hour angle: cos H₀ = (sin h₀ − sin φ·sin δ) / (cos φ·cos δ).
+ * Declination is held fixed over the day — within a few minutes of the
+ * true value everywhere outside the polar circles.
+ */
+export function getDaylightHours(latitude: number, declination: number): number {
+  const φ = latitude * TO_RAD;
+  const δ = declination * TO_RAD;
+  const cosH0 = (Math.sin(SUNRISE_ALTITUDE * TO_RAD) - Math.sin(φ) * Math.sin(δ)) / (Math.cos(φ) * Math.cos(δ));
+  if (cosH0 <= -1) return 24;
+  if (cosH0 >= 1) return 0;
+  return 2 * Math.acos(cosH0) * TO_DEG / 15;
+}
+
+/**
+ * Latitude bands where the sun never sets (midnight sun) or never rises
+ * (polar night), clipped to the Mercator limit. Either is null when the
+ * band lies entirely poleward of it.
+ */
+export function getPolarDayNightRegions(date: Date): { midnightSun: Feature | null; polarNight: Feature | null } {
+  const declination = getSubsolarPoint(date)[1];
+  const hemisphere = declination >= 0 ? 1 : -1;
+
+  // Solve cos H₀ = ∓1 for φ: |φ| ≥ 90° + h₀ − |δ| and |φ| ≥ 90° − h₀ − |δ|
+  const midnightSunEdge = 90 + SUNRISE_ALTITUDE - Math.abs(declination);
+  const polarNightEdge = 90 - SUNRISE_ALTITUDE - Math.abs(declination);
+
+  const band = (edge: number, sign: number): Feature | null => {
+    if (edge >= MERCATOR_LIMIT) return null;
+    const inner = sign * edge;
+    const outer = sign * MERCATOR_LIMIT;
+    return {
+      type: 'Feature',
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[[-180, inner], [180, inner], [180, outer], [-180, outer], [-180, inner]]],
+      },
+      properties: { edge: inner },
+    };
+  };
+
+  return {
+    midnightSun: band(midnightSunEdge, hemisphere),
+    polarNight: band(polarNightEdge, -hemisphere),
+  };
+}
+
+// ── Satellite footprint ───────────────────────────────────────────────
+
+/**
+ * Rings for a small circle of `radiusDegrees` around `center`, traced by
+ * bearing so small circles stay round at any latitude.
+ *
+ * Longitudes are unwrapped rather than wrapped, so a circle straddling the
+ * antimeridian is one unbroken ring plus a copy shifted by 360° for the other
+ * side of the map. A circle over a pole sweeps a full 360° of longitude and
+ * is closed along the Mercator limit instead.
+ */
+export function getSmallCirclePolygons(
+  center: [number, number],
+  radiusDegrees: number,
+  steps: number = 128
+): Position[][] {
+  const φ0 = center[1] * TO_RAD;
+  const r = radiusDegrees * TO_RAD;
+  const clampLat = (lat: number) => Math.max(-MERCATOR_LIMIT, Math.min(MERCATOR_LIMIT, lat));
+
+  const boundary: Position[] = [];
+  let prevLon = center[0];
+  for (let i = 0; i <= steps; i++) {
+    const bearing = (i / steps) * 2 * Math.PI;
+    const sinφ = Math.sin(φ0) * Math.cos(r) + Math.cos(φ0) * Math.sin(r) * Math.cos(bearing);
+    const φ = Math.asin(Math.max(-1, Math.min(1, sinφ)));
+    const dλ = Math.atan2(
+      Math.sin(bearing) * Math.sin(r) * Math.cos(φ0),
+      Math.cos(r) - Math.sin(φ0) * sinφ
+    );
+
+    // Unwrap against the previous vertex so the ring never jumps 360°
+    let lon = center[0] + dλ * TO_DEG;
+    lon += Math.round((prevLon - lon) / 360) * 360;
+    prevLon = lon;
+    boundary.push([lon, clampLat(φ * TO_DEG)]);
+  }
+
+  const sweep = boundary[boundary.length - 1][0] - boundary[0][0];
+  let ring: Position[];
+  if (Math.abs(sweep) > 180) {
+    // Pole inside the circle: boundary, then back along the polar cap
+    const capLat = center[1] >= 0 ? MERCATOR_LIMIT : -MERCATOR_LIMIT;
+    const last = boundary[boundary.length - 1];
+    ring = [...boundary, [last[0], capLat], [boundary[0][0], capLat], boundary[0]];
+  } else {
+    ring = boundary;
+  }
+
+  const lons = ring.map(p => p[0]);
+  const minLon = Math.min(...lons);
+  const maxLon = Math.max(...lons);
+  const rings = [ring];
+  if (maxLon > 180) rings.push(ring.map(([lon, lat]) => [lon - 360, lat]));
+  if (minLon < -180) rings.push(ring.map(([lon, lat]) => [lon + 360, lat]));
+  return rings;
+}
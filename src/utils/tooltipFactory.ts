@@ -1,4 +1,12 @@
+import { CONFIG } from '../config';
 import { HurricaneProcessor } from './HurricaneProcessor';
+import { getCityLocalTime } from '../services/simpleCityService';
+import { formatDayLength, formatSolarTime, type SunAtPoint } from '../services/solarTimesService';
+import { formatEclipseName } from '../services/eclipseService';
+import { getZoneLocalDate, getZoneUtcOffset } from '../layers/CalendarDateLayer';
+import { getDepthClass } from '../layers/EarthquakeLayer';
+import { getPlateName, getStepClassLabel, type PlateBoundarySegment } from '../layers/PlateBoundariesLayer';
+import { useMapStore, getSimulatedTime } from '../store/mapStore';
 
 // Create processor instance for wind speed conversion
 const hurricaneProcessor = new HurricaneProcessor();
@@ -39,6 +47,10 @@ const COLORS = {
   iss: '#fff58c',
   hurricane: '#ff4444',
   earthquake: '#fbbf24',
+  twilight: '#a5b4fc',
+  moon: '#e2e8f0',
+  sun: '#fcd34d',
+  eclipse: '#fb923c',
 };
 
 /**
@@ -95,6 +107,13 @@ function createStatusBadge(text: string, backgroundColor: string, fontSize: stri
   `;
 }
 
+/**
+ * "Midnight sun" / "Polar night" when the sun never sets or never rises
+ */
+function getPolarLabel(daylightHours: number): 'Midnight sun' | 'Polar night' | null {
+  return daylightHours >= 24 ? 'Midnight sun' : daylightHours <= 0 ? 'Polar night' : null;
+}
+
 /**
  * Mountain peaks tooltip generator
  */
@@ -144,7 +163,7 @@ export function createUnescoTooltip(site: any) {
 export function createISSTooltip(iss: any) {
   const altitude = Math.round(iss.altitude);
   const velocity = Math.round(iss.velocity);
-  const lastUpdate = new Date(iss.timestamp * 1000).toLocaleTimeString();
+  const positionTime = new Date(iss.timestamp * 1000).toLocaleTimeString();
   
   const content = `
     <div style="font-weight: 600; color: ${COLORS.iss}; margin-bottom: 6px; display: flex; align-items: center; gap: 6px;">
@@ -162,13 +181,79 @@ export function createISSTooltip(iss: any) {
       </div>
     </div>
     <div style="color: ${COLORS.lighter}; font-size: 11px; margin-top: 4px;">
-      Updated: ${lastUpdate}
+      ${iss.visibility === 'eclipsed' ? 'In Earth\'s shadow' : 'Sunlit'} · ${positionTime}
+    </div>
+    <div style="margin-top: 6px;">
+      ${useMapStore.getState().followISS
+        ? createStatusBadge('Following · F to stop', COLORS.success)
+        : createStatusBadge('Click for video & follow', COLORS.gray)}
     </div>
   `;
   
   return createTooltipContainer(content, `rgba(255, 245, 140, 0.4)`, 'small', '240px');
 }
 
+/**
+ * ISS orbital sunrise / sunset marker tooltip generator
+ */
+export function createISSOrbitalEventTooltip(event: any) {
+  const isSunrise = event.type === 'sunrise';
+  const [r, g, b] = isSunrise ? CONFIG.styles.iss.orbitalEvents.sunriseColor : CONFIG.styles.iss.orbitalEvents.sunsetColor;
+  const eventTime = new Date(event.timestamp * 1000);
+  const minutesAway = Math.round((eventTime.getTime() - getSimulatedTime(useMapStore.getState()).getTime()) / 60000);
+
+  const content = `
+    <div style="font-weight: 600; color: rgb(${r}, ${g}, ${b}); margin-bottom: 4px;">
+      Orbital ${isSunrise ? 'sunrise' : 'sunset'}
+    </div>
+    <div style="color: ${COLORS.light}; font-size: 12px;">
+      ${eventTime.toLocaleTimeString()}${minutesAway > 0 ? ` · in ${minutesAway} min` : ''}
+    </div>
+    <div style="color: ${COLORS.lighter}; font-size: 11px; margin-top: 2px;">
+      ${isSunrise ? 'The ISS leaves Earth\'s shadow' : 'The ISS enters Earth\'s shadow — the crew is in darkness'}
+    </div>
+  `;
+
+  return createTooltipContainer(content, `rgba(${r}, ${g}, ${b}, 0.4)`, 'small', '240px');
+}
+
+/**
+ * Tracked satellite tooltip generator - one per satellite, in its own color
+ */
+export function createSatelliteTooltip(satellite: any) {
+  const { state } = satellite;
+  const [r, g, b] = satellite.color;
+  const periodMinutes = Math.round(satellite.periodMinutes);
+  const period = periodMinutes >= 120
+    ? `${Math.floor(periodMinutes / 60)}h ${periodMinutes % 60}m`
+    : `${periodMinutes} min`;
+
+  const content = `
+    <div style="font-weight: 600; color: rgb(${r}, ${g}, ${b}); margin-bottom: 6px;">
+      ${satellite.name}
+    </div>
+    <div style="color: ${COLORS.light}; font-size: 12px; margin-bottom: 4px;">
+      <div style="margin-bottom: 2px;">
+        <strong>Altitude:</strong> ${Math.round(state.altitude).toLocaleString()} km
+      </div>
+      <div style="margin-bottom: 2px;">
+        <strong>Velocity:</strong> ${Math.round(state.velocity).toLocaleString()} km/h
+      </div>
+      <div style="margin-bottom: 2px;">
+        <strong>Orbit:</strong> ${period}
+      </div>
+      <div style="margin-bottom: 2px;">
+        <strong>Position:</strong> ${state.latitude.toFixed(2)}°, ${state.longitude.toFixed(2)}°
+      </div>
+    </div>
+    <div style="color: ${COLORS.lighter}; font-size: 11px; margin-top: 4px;">
+      NORAD ${satellite.noradId} · ${state.sunlit ? 'Sunlit' : 'In Earth\'s shadow'} · TLE epoch ${satellite.tleEpoch}
+    </div>
+  `;
+
+  return createTooltipContainer(content, `rgba(${r}, ${g}, ${b}, 0.4)`, 'small', '260px');
+}
+
 /**
  * Hurricane position tooltip generator - handles different position types
  */
@@ -301,7 +386,7 @@ export function createEarthquakeTooltip(earthquake: any) {
         <strong>Location:</strong> ${props.place}
       </div>
       <div style="margin-bottom: 3px;">
-        <strong>Depth:</strong> ${depth} km
+        <strong>Depth:</strong> ${depth} km · ${getDepthClass(coords[2]).label.toLowerCase()}
       </div>
       <div style="margin-bottom: 3px;">
         <strong>Significance:</strong> ${significance}
@@ -316,6 +401,285 @@ export function createEarthquakeTooltip(earthquake: any) {
   return createTooltipContainer(content, alertColor, 'large', '280px');
 }
 
+/**
+ * Plate boundary tooltip generator
+ */
+export function createPlateBoundaryTooltip(segment: PlateBoundarySegment) {
+  const { label, color } = CONFIG.styles.plateBoundaries.types[segment.type];
+  const [r, g, b] = color;
+
+  const content = `
+    <div style="font-weight: 600; color: rgb(${r}, ${g}, ${b}); margin-bottom: 4px;">
+      ${getPlateName(segment.plateA)} – ${getPlateName(segment.plateB)}
+    </div>
+    <div style="margin-bottom: 4px;">
+      ${createStatusBadge(label, `rgba(${r}, ${g}, ${b}, 0.8)`)}
+    </div>
+    <div style="color: ${COLORS.lighter}; font-size: 11px;">
+      ${getStepClassLabel(segment.stepClass)}
+    </div>
+  `;
+
+  return createTooltipContainer(content, `rgba(${r}, ${g}, ${b}, 0.4)`, 'small', '240px');
+}
+
+/**
+ * Twilight boundary line tooltip generator
+ */
+export function createTwilightTooltip(line: any) {
+  const depression = line.zenith - 90;
+  const [r, g, b] = CONFIG.styles.night.twilight[line.zone as keyof typeof CONFIG.styles.night.twilight].color;
+
+  const content = `
+    <div style="font-weight: 600; color: rgb(${r}, ${g}, ${b}); margin-bottom: 4px;">
+      End of ${line.label.toLowerCase()}
+    </div>
+    <div style="color: ${COLORS.light}; font-size: 12px;">
+      Sun ${depression}° below the horizon
+    </div>
+    <div style="color: ${COLORS.lighter}; font-size: 11px; margin-top: 2px;">
+      Beyond this line the sky is darker than ${line.label.toLowerCase()}
+    </div>
+  `;
+
+  return createTooltipContainer(content, `rgba(${r}, ${g}, ${b}, 0.4)`, 'small', '220px');
+}
+
+/**
+ * Calendar-date region tooltip generator
+ */
+export function createCalendarDateTooltip(zone: any) {
+  const date = getSimulatedTime(useMapStore.getState());
+  const offset = getZoneUtcOffset(zone, date);
+  const localDate = getZoneLocalDate(zone, date);
+  const [r, g, b] = CONFIG.styles.calendar.weekdayColors[localDate.getUTCDay()];
+
+  const hours = Math.floor(Math.abs(offset));
+  const minutes = Math.round((Math.abs(offset) - hours) * 60);
+  const utcLabel = `UTC${offset < 0 ? '−' : '+'}${hours}${minutes ? `:${minutes.toString().padStart(2, '0')}` : ''}`;
+
+  const content = `
+    <div style="font-weight: 600; color: rgb(${r}, ${g}, ${b}); margin-bottom: 4px;">
+      ${localDate.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', timeZone: 'UTC' })}
+    </div>
+    <div style="color: ${COLORS.light}; font-size: 12px;">
+      ${localDate.toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', timeZone: 'UTC' })} local time
+    </div>
+    <div style="color: ${COLORS.lighter}; font-size: 11px; margin-top: 2px;">
+      ${utcLabel} ${offset === zone.properties.UTC_OFFSET ? 'standard' : 'daylight saving'} time
+    </div>
+  `;
+
+  return createTooltipContainer(content, `rgba(${r}, ${g}, ${b}, 0.4)`, 'small', '220px');
+}
+
+/**
+ * Daylight-hours tooltip for the cursor latitude
+ */
+export function createDaylightTooltip(band: { latitude: number; hours: number }) {
+  const lat = Math.abs(band.latitude).toFixed(1);
+  const hemisphere = band.latitude >= 0 ? 'N' : 'S';
+  const polar = getPolarLabel(band.hours);
+
+  const content = `
+    <div style="font-weight: 600; color: ${COLORS.sun}; margin-bottom: 4px;">
+      ${formatDayLength(Math.round(band.hours * 60))} of daylight
+    </div>
+    <div style="color: ${COLORS.light}; font-size: 12px;">
+      Latitude ${lat}°${hemisphere}
+    </div>
+    ${polar ? `<div style="margin-top: 4px;">${createStatusBadge(polar, polar === 'Midnight sun' ? COLORS.warning : '#6366f1')}</div>` : ''}
+  `;
+
+  return createTooltipContainer(content, `rgba(252, 211, 77, 0.4)`, 'small', '200px');
+}
+
+/**
+ * Moon position tooltip generator
+ */
+export function createMoonTooltip(moon: any) {
+  const [lon, lat] = moon.position;
+  const illumination = Math.round(moon.illumination * 100);
+
+  const content = `
+    <div style="font-weight: 600; color: ${COLORS.moon}; margin-bottom: 6px;">
+      🌙 ${moon.phaseName}
+    </div>
+    <div style="color: ${COLORS.light}; font-size: 12px;">
+      <div style="margin-bottom: 2px;">
+        <strong>Illumination:</strong> ${illumination}%
+      </div>
+      <div style="margin-bottom: 2px;">
+        <strong>Overhead at:</strong> ${lat.toFixed(2)}°, ${lon.toFixed(2)}°
+      </div>
+      <div style="margin-bottom: 2px;">
+        <strong>Distance:</strong> ${Math.round(moon.distanceKm).toLocaleString()} km
+      </div>
+    </div>
+  `;
+
+  return createTooltipContainer(content, `rgba(226, 232, 240, 0.4)`, 'small', '240px');
+}
+
+/**
+ * City dot tooltip generator — local time plus today's sun times
+ */
+export function createCityTooltip(cityData: any) {
+  const { city, time, solarTimes } = cityData;
+  const fmt = (date: Date | null) => date ? getCityLocalTime(city.timezone, date) : '—';
+
+  let sunContent = '';
+  if (solarTimes?.polar) {
+    sunContent = `
+      <div style="margin-bottom: 4px;">
+        ${createStatusBadge(solarTimes.polar === 'day' ? '☀️ Polar day — sun never sets' : '🌑 Polar night — sun never rises', solarTimes.polar === 'day' ? COLORS.warning : COLORS.gray)}
+      </div>
+      <div style="margin-bottom: 2px;">
+        <strong>Solar noon:</strong> ${fmt(solarTimes.solarNoon)}
+      </div>
+    `;
+  } else if (solarTimes) {
+    sunContent = `
+      <div style="margin-bottom: 2px;">
+        <strong>Sunrise:</strong> ${fmt(solarTimes.sunrise)}
+      </div>
+      <div style="margin-bottom: 2px;">
+        <strong>Solar noon:</strong> ${fmt(solarTimes.solarNoon)}
+      </div>
+      <div style="margin-bottom: 2px;">
+        <strong>Sunset:</strong> ${fmt(solarTimes.sunset)}
+      </div>
+    `;
+  }
+
+  const content = `
+    <div style="font-weight: 600; color: ${COLORS.sun}; margin-bottom: 4px;">
+      ${city.name}
+    </div>
+    <div style="color: ${COLORS.lighter}; font-size: 11px; margin-bottom: 6px;">
+      ${city.country} • ${time} local
+    </div>
+    <div style="color: ${COLORS.light}; font-size: 12px;">
+      ${sunContent}
+      ${solarTimes ? `<div><strong>Day length:</strong> ${formatDayLength(solarTimes.dayLengthMinutes)}</div>` : ''}
+    </div>
+  `;
+
+  return createTooltipContainer(content, `rgba(252, 211, 77, 0.4)`, 'small', '240px');
+}
+
+/**
+ * Eclipse tooltip generator — centre-line time or greatest eclipse, plus
+ * local contact times for each tracked city
+ */
+export function createEclipseTooltip(datum: any, layerId?: string) {
+  const { eclipse, cities } = datum;
+  const utc = (date: Date) => `${date.toISOString().slice(11, 16)} UTC`;
+  const date = eclipse.peak.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+  let detail = '';
+  if (layerId === 'eclipse-centerline-points') {
+    detail = `
+      <div style="margin-bottom: 2px;">
+        <strong>Centre line:</strong> ${utc(datum.time)}
+      </div>
+      ${datum.widthKm ? `<div style="margin-bottom: 2px;"><strong>Path width:</strong> ${Math.round(datum.widthKm)} km</div>` : ''}
+    `;
+  } else if (eclipse.body === 'solar') {
+    detail = `
+      <div style="margin-bottom: 2px;">
+        <strong>Greatest eclipse:</strong> ${utc(eclipse.peak)}
+      </div>
+      ${datum.magnitude !== null ? `<div style="margin-bottom: 2px;"><strong>Max. magnitude:</strong> ${datum.magnitude.toFixed(2)}</div>` : ''}
+    `;
+  } else {
+    const { partial, total } = eclipse.semiDurations;
+    detail = `
+      <div style="margin-bottom: 2px;">
+        <strong>Peak:</strong> ${utc(eclipse.peak)}
+      </div>
+      ${partial > 0 ? `<div style="margin-bottom: 2px;"><strong>Partial phase:</strong> ${Math.round(partial * 2)} min</div>` : ''}
+      ${total > 0 ? `<div style="margin-bottom: 2px;"><strong>Totality:</strong> ${Math.round(total * 2)} min</div>` : ''}
+    `;
+  }
+
+  const cityRows = cities.map(({ city, contacts }: any) => {
+    if (!contacts || !contacts.visible) {
+      return `<div style="color: ${COLORS.gray};">${city.name} — not visible</div>`;
+    }
+    const local = (d: Date) => getCityLocalTime(city.timezone, d);
+    const coverage = contacts.obscuration !== null ? ` · ${Math.round(contacts.obscuration * 100)}%` : '';
+    const totality = contacts.totalBegin && contacts.totalEnd
+      ? `<div style="color: ${COLORS.lighter}; font-size: 11px; padding-left: 8px;">${contacts.kind === 'annular' ? 'Annular' : 'Total'} ${local(contacts.totalBegin.time)}–${local(contacts.totalEnd.time)}</div>`
+      : '';
+    return `
+      <div>
+        <strong>${city.name}</strong> ${local(contacts.begin.time)}–${local(contacts.end.time)}
+        <span style="color: ${COLORS.lighter};">(max ${local(contacts.peak.time)}${coverage})</span>
+      </div>
+      ${totality}
+    `;
+  }).join('');
+
+  const content = `
+    <div style="font-weight: 600; color: ${COLORS.eclipse}; margin-bottom: 2px;">
+      ${formatEclipseName(eclipse)}
+    </div>
+    <div style="color: ${COLORS.lighter}; font-size: 11px; margin-bottom: 6px;">
+      ${date}
+    </div>
+    <div style="color: ${COLORS.light}; font-size: 12px;">
+      ${detail}
+    </div>
+    ${cityRows ? `
+      <div style="color: ${COLORS.light}; font-size: 12px; margin-top: 6px; padding-top: 6px; border-top: 1px solid rgba(148, 163, 184, 0.2);">
+        <div style="color: ${COLORS.lighter}; font-size: 11px; margin-bottom: 2px;">Local times</div>
+        ${cityRows}
+      </div>
+    ` : ''}
+  `;
+
+  return createTooltipContainer(content, `rgba(251, 146, 60, 0.4)`, 'small', '300px');
+}
+
+/**
+ * Cursor readout — sun position at any hovered point
+ */
+export function createSunReadoutTooltip(sun: SunAtPoint, [lon, lat]: [number, number], daylightHours?: number) {
+  const polar = daylightHours === undefined ? null : getPolarLabel(daylightHours);
+  const lightLabel = sun.light === 'day' || sun.light === 'night'
+    ? sun.light.charAt(0).toUpperCase() + sun.light.slice(1)
+    : CONFIG.styles.night.twilight[sun.light].label;
+  const lightColor = sun.light === 'day'
+    ? COLORS.sun
+    : sun.light === 'night'
+      ? COLORS.gray
+      : `rgb(${CONFIG.styles.night.twilight[sun.light].color.slice(0, 3).join(', ')})`;
+
+  const content = `
+    <div style="display: flex; align-items: center; justify-content: space-between; gap: 8px; margin-bottom: 4px;">
+      <span style="font-weight: 600; color: ${COLORS.sun};">☀ ${sun.elevation.toFixed(1)}°</span>
+      ${createStatusBadge(lightLabel, lightColor)}
+    </div>
+    <div style="color: ${COLORS.light}; font-size: 12px;">
+      <div style="margin-bottom: 2px;">
+        <strong>Azimuth:</strong> ${sun.azimuth.toFixed(1)}°
+      </div>
+      <div style="margin-bottom: 2px;">
+        <strong>Solar time:</strong> ${formatSolarTime(sun.apparentSolarTime)}
+      </div>
+      ${daylightHours === undefined ? '' : `
+      <div style="margin-bottom: 2px;">
+        <strong>Daylight:</strong> ${polar ?? formatDayLength(Math.round(daylightHours * 60))}
+      </div>`}
+    </div>
+    <div style="color: ${COLORS.lighter}; font-size: 11px; margin-top: 2px;">
+      ${lat.toFixed(2)}°, ${lon.toFixed(2)}°
+    </div>
+  `;
+
+  return createTooltipContainer(content, `rgba(252, 211, 77, 0.4)`, 'small', '200px');
+}
 
 /**
  * Main tooltip factory function - dispatches to appropriate tooltip generator
@@ -334,6 +698,12 @@ export function createLayerTooltip(object: any, layer: any) {
     
     case 'iss-position':
       return createISSTooltip(object);
+
+    case 'iss-orbital-events':
+      return createISSOrbitalEventTooltip(object);
+
+    case 'satellite-positions':
+      return createSatelliteTooltip(object);
     
     case 'hurricane-positions':
       return createHurricaneTooltip(object, layer.id);
@@ -345,7 +715,32 @@ export function createLayerTooltip(object: any, layer: any) {
       return createHurricaneConeTooltip(object);
     
     case 'earthquake-positions':
+    case 'earthquake-alert-markers':
       return createEarthquakeTooltip(object);
+
+    case 'plate-boundaries':
+      return createPlateBoundaryTooltip(object);
+
+    case 'twilight-line-civil':
+    case 'twilight-line-nautical':
+    case 'twilight-line-astronomical':
+      return createTwilightTooltip(object);
+
+    case 'calendar-date-regions':
+      return createCalendarDateTooltip(object);
+
+    case 'moon-position':
+      return createMoonTooltip(object);
+
+    case 'city-dots':
+      return createCityTooltip(object);
+
+    case 'eclipse-centerline-points':
+    case 'eclipse-greatest':
+      return createEclipseTooltip(object, layer.id);
+
+    case 'eclipse-lunar-visibility':
+      return createEclipseTooltip(object.properties, layer.id);
     
     default:
       return null;
@@ -8,6 +8,9 @@ export default defineConfig({
     react()
   ],
   base: '/geo-website/', // GitHub Pages base URL
+  worker: {
+    format: 'es', // satellite.js ships WASM workers that use top-level await
+  },
   resolve: {
     alias: {
       '@': resolve(__dirname, './src'),